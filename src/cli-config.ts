@@ -33,7 +33,7 @@ Commands:
 Config location: ${configFile}
 
 Edit the config file to customize:
-  - Rendering backend (img2sixel or chafa)
+  - Rendering backend (builtin or chafa)
   - Image scaling
   - Mermaid diagram settings
   - Font family and size
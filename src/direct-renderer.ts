@@ -1,20 +1,72 @@
 #!/usr/bin/env node
-import { marked } from 'marked';
+import { marked, type Renderer, type Token, type Tokens } from 'marked';
 import TerminalRenderer from 'marked-terminal';
-import { renderImage } from './lib/image.js';
+import { renderImage, renderImageAsText, isRenderedImage, composeImageRow } from './lib/image.js';
+import { detectTerminalBackground, detectTerminalCapabilities } from './lib/terminal-caps.js';
+import { cachedText } from './lib/cache.js';
+import { RenderScheduler } from './lib/scheduler.js';
 import { renderMermaidDiagram, cleanupMermaidFile } from './lib/mermaid.js';
+import { renderMermaidCore } from './lib/mermaid-core.js';
 import { renderEmbeddedSvg, extractSvgFromHtml } from './lib/svg.js';
-import { renderMathToSvg, svgWidthEx, extractInlineMath, INLINE_MATH_PLACEHOLDER_RE, latexToUnicode } from './lib/math.js';
-import { loadProfile } from './lib/config.js';
-import { highlightCode, detectLanguage } from './lib/terminal-syntax-highlighter.js';
+import { renderMathToSvg, svgWidthEx, extractInlineMath, INLINE_MATH_PLACEHOLDER_RE, latexToUnicode, superscriptText } from './lib/math.js';
+import { applyTerminalBackground, loadProfile } from './lib/config.js';
+import { formatCodeBlock } from './lib/terminal-syntax-highlighter.js';
+import { formatTable } from './lib/terminal-table.js';
+import { displayWidth } from './lib/terminal-text.js';
+import { terminalStyles } from './lib/terminal-theme.js';
+import { stdoutOutput, type RenderOutput } from './lib/render-output.js';
+import { HyperlinkCollector, hyperlink, resolveHref, type LinkContext } from './lib/links.js';
+import { fetchRemoteImage, isRemoteUrl, remoteImagesEnabled } from './lib/remote.js';
+import { resolveIncludes } from './lib/include.js';
+import { admonitionExtension, formatAdmonitionBox, type AdmonitionToken } from './lib/admonitions.js';
+import {
+  emojiExtension, extractFootnotes, footnoteReferenceExtension, inlineStylesExtension, terminalInlineStyles
+} from './lib/markdown-extensions.js';
+import { formatFrontMatterCard, hasTitleBlock, parseFrontMatter } from './lib/front-matter.js';
+import { findImageRows, isImageOnly, isLinkedImage, removeHtmlImages, type InlineImage } from './lib/inline-images.js';
 import path from 'path';
 import fs from 'fs/promises';
-import Table from 'cli-table3';
 
-// Create renderer with configuration from profile
-async function createRenderer(profile: any) {
+// GitHub alerts and ::: containers are drawn as boxes, by the renderer
+// (see createRenderer) that meets them.
+type AdmonitionRenderer = Renderer & {
+  admonition?: (token: AdmonitionToken) => string;
+};
+
+marked.use({
+  extensions: [admonitionExtension(function(token) {
+    const renderer: AdmonitionRenderer = this.parser.renderer;
+    return renderer.admonition?.(token) ?? '';
+  })]
+});
+
+// Footnote numbers of the document being rendered; its notes are listed at
+// the end (see extractFootnotes). Markers are drawn in its theme's style.
+const footnoteNumbers = new Map<string, number>();
+let footnoteStyle: (text: string) => string = text => text;
+
+// Emoji shortcodes, sub/superscript as script characters, highlights in
+// reverse video, and footnote references as superscript numbers.
+marked.use(
+  emojiExtension(),
+  inlineStylesExtension(terminalInlineStyles),
+  footnoteReferenceExtension(footnoteNumbers, number => footnoteStyle(superscriptText(String(number))))
+);
+
+// Create renderer with configuration from profile. Links resolve against
+// `links`; with a `hyperlinks` collector they become clickable OSC 8 links
+// (restored by the collector after parsing). `inlineMath` gives the inline
+// math expressions of the prose being parsed. `width` is the room the text
+// has (default: the terminal's width).
+function createRenderer(
+  profile: any,
+  links: LinkContext,
+  hyperlinks?: HyperlinkCollector,
+  inlineMath: () => string[] = () => [],
+  width?: number
+) {
   // Use terminal width detection with fallback from profile
-  const terminalWidth = process.stdout.columns || profile.terminal?.fallbackColumns || 80;
+  const terminalWidth = width ?? (process.stdout.columns || profile.terminal?.fallbackColumns || 80);
   
   // Get table configuration from profile
   const tableConfig = profile.tables || {
@@ -23,25 +75,28 @@ async function createRenderer(profile: any) {
     widthPercent: 0.95
   };
 
+  // Colours from the profile's terminal theme
+  const styles = terminalStyles(profile);
+
   // Create a custom renderer that extends TerminalRenderer
   const baseRenderer = new TerminalRenderer({
+    firstHeading: styles.firstHeading,
+    heading: styles.heading,
+    strong: styles.strong,
+    em: styles.em,
+    del: styles.del,
+    codespan: styles.codespan,
+    blockquote: styles.blockquote,
+    html: styles.html,
+    link: styles.link,
+    href: styles.href,
     showSectionPrefix: false,
     width: terminalWidth,
     reflowText: true,
     tab: 2,
-    emoji: true,
-    tableOptions: {
-      style: {
-        head: ['cyan', 'bold'],
-        border: ['gray'],
-        compact: false
-      },
-      wordWrap: tableConfig.wordWrap,
-      wrapOnWordBoundary: tableConfig.wrapOnWordBoundary
-    }
+    emoji: true
   });
 
-  // Override the table method to calculate column widths
   const renderer = Object.create(baseRenderer);
   
   // Override the code method to use our syntax highlighter
@@ -51,8 +106,9 @@ async function createRenderer(profile: any) {
       lang = code.lang;
       code = code.text;
     }
-    // Apply our custom syntax highlighting
-    const highlighted = lang ? highlightCode(code, lang) : highlightCode(code, detectLanguage(code));
+    // Syntax highlighting, plus the title, line numbers and emphasized or
+    // diff lines the info string asks for
+    const highlighted = formatCodeBlock(code, lang, styles.syntax);
     
     // Add indentation (2 spaces per line)
     const lines = highlighted.split('\n');
@@ -62,109 +118,150 @@ async function createRenderer(profile: any) {
     return '\n' + indented + '\n';
   };
   
-  // Define the special markers used by marked-terminal
-  const TABLE_CELL_SPLIT = '^*||*^';
-  const TABLE_ROW_WRAP = '*|*|*|*';
-  const TABLE_ROW_WRAP_REGEXP = new RegExp(TABLE_ROW_WRAP.replace(/[|*]/g, '\\$&'), 'g');
-  
-  renderer.table = function(header: string | { header: any[]; rows: any[][] }, body: string) {
-    // Handle token objects (marked v13+)
-    if (typeof header === 'object') {
-      const token = header;
-      let headerStr = '';
-      for (let j = 0; j < token.header.length; j++) {
-        headerStr += baseRenderer.tablecell.call(this, token.header[j]);
-      }
-      header = baseRenderer.tablerow.call(this, { text: headerStr });
-
-      body = '';
-      for (let j = 0; j < token.rows.length; j++) {
-        const row = token.rows[j];
-        let cell = '';
-        for (let k = 0; k < row.length; k++) {
-          cell += baseRenderer.tablecell.call(this, row[k]);
-        }
-        body += baseRenderer.tablerow.call(this, { text: cell });
-      }
+  // Links: clickable text instead of "text (url)". Local targets become
+  // absolute file:// URLs so the pager (and the terminal) can open them.
+  renderer.link = function(token: Tokens.Link) {
+    // A linked image is drawn after the block, its link on the caption.
+    if (isLinkedImage(token)) {
+      return '';
     }
+    if (!hyperlinks) {
+      return baseRenderer.link.call(this, token);
+    }
+    const text = this.parser.parseInline(token.tokens);
+    const label = this.o.href(this.emoji(text || token.href));
+    return this.o.link(hyperlinks.mark(resolveHref(token.href, links), label));
+  };
 
-    // Helper function to parse table rows
-    const parseTableRow = (text: string) => {
-      if (!text) return [];
-      const lines = text.split('\n');
-      const data: string[][] = [];
-      
-      lines.forEach(line => {
-        if (!line) return;
-        const parsed = line
-          .replace(TABLE_ROW_WRAP_REGEXP, '')
-          .split(TABLE_CELL_SPLIT);
-        data.push(parsed.slice(0, -1)); // Remove last empty element
+  // Images are drawn after the block they appear in (see findImageRows).
+  renderer.image = function() {
+    return '';
+  };
+
+  // <img> and <picture> are drawn after the block like markdown images.
+  renderer.html = function(token: Tokens.HTML | Tokens.Tag) {
+    const html = removeHtmlImages(token.text);
+    if (html === token.text) {
+      return baseRenderer.html.call(this, token);
+    }
+    return html.trim() ? baseRenderer.html.call(this, { ...token, text: html }) : '';
+  };
+
+  // The text of a tight list item carries inline tokens (emphasis, links,
+  // images) that marked-terminal would print as raw markdown.
+  renderer.text = function(token: Tokens.Text | Tokens.Escape) {
+    if ('tokens' in token && token.tokens) {
+      return this.parser.parseInline(token.tokens);
+    }
+    return baseRenderer.text.call(this, token);
+  };
+
+  // Tables are sized to their content and drawn by terminal-table.ts. Inline
+  // math in a cell is written as Unicode text, which the layout can measure,
+  // and links are restored at once, since the card layout repeats headers.
+  renderer.table = function(token: Tokens.Table) {
+    const cell = (content: Tokens.TableCell): string => {
+      const text = this.transform(this.parser.parseInline(content.tokens)).replace(INLINE_MATH_PLACEHOLDER_RE, (match: string, i: string) => {
+        const expr = inlineMath()[Number(i)];
+        return expr === undefined ? match : latexToUnicode(expr) || `$${expr}$`;
       });
-      
-      return data;
-    };
-    
-    // Parse header and body
-    const headerRows = parseTableRow(header);
-    const bodyRows = parseTableRow(body);
-    
-    if (headerRows.length === 0) return '';
-    
-    const numColumns = headerRows[0].length;
-    
-    // Calculate column widths based on terminal width and profile percentage
-    const widthPercent = tableConfig.widthPercent || 0.95;
-    // Account for borders and padding (3 chars per column separator)
-    const availableWidth = Math.floor(terminalWidth * widthPercent) - (numColumns + 1) * 3;
-    const colWidth = Math.floor(availableWidth / numColumns);
-    
-    // Set minimum column width to prevent too narrow columns
-    const minWidth = 10;
-    const calculatedWidth = Math.max(minWidth, colWidth);
-    
-    // Create colWidths array
-    const colWidths = new Array(numColumns).fill(calculatedWidth);
-    
-    // Apply the calculated widths to tableOptions
-    const tableOptionsWithWidths = {
-      ...this.tableSettings,
-      colWidths: colWidths
+      return hyperlinks ? hyperlinks.restoreLatest(text) : text;
     };
-    
-    // Create the table with calculated widths
-    const table = new Table({
-      head: headerRows[0],
-      ...tableOptionsWithWidths
-    });
-    
-    // Add body rows
-    bodyRows.forEach(row => {
-      if (row.length === numColumns) {
-        table.push(row);
-      }
+    const table = formatTable({
+      header: token.header.map(cell),
+      rows: token.rows.map(row => row.map(cell)),
+      align: token.align
+    }, {
+      width: Math.floor(terminalWidth * (tableConfig.widthPercent || 0.95)),
+      layout: tableConfig.layout,
+      wordWrap: tableConfig.wordWrap,
+      wrapOnWordBoundary: tableConfig.wrapOnWordBoundary,
+      head: styles.tableHead,
+      border: styles.tableBorder
     });
-    
-    return '\n' + table.toString() + '\n';
+    return '\n' + table + '\n';
+  };
+
+  // Admonitions: the content is laid out by a renderer four columns
+  // narrower, leaving room for the frame.
+  let boxContent: Renderer | undefined;
+  renderer.admonition = function(token: AdmonitionToken): string {
+    boxContent ??= createRenderer(profile, links, hyperlinks, inlineMath, terminalWidth - 4);
+    const body = new marked.Parser({ ...this.parser.options, renderer: boxContent }).parse(token.tokens);
+    return formatAdmonitionBox(token, body, terminalWidth, styles[token.kind]) + '\n\n';
   };
 
   return renderer;
 }
 
-export async function renderMarkdownDirect(filePathOrContent: string, baseDir?: string): Promise<void> {
-  try {
-    // Load profile
-    const profile = await loadProfile('terminal');
+// Rendered terminal graphics, keyed by everything that affects the result.
+// Lives for the whole process, so pager resizes and watch-mode re-renders only
+// rasterize the blocks whose source (or the image file behind them) changed;
+// misses fall through to the on-disk cache, which serves later runs.
+const graphicsMemo = new Map<string, string>();
+const GRAPHICS_MEMO_LIMIT = 200;
 
-    // Create renderer with profile configuration
-    const renderer = await createRenderer(profile);
+async function memoGraphic(key: unknown[], render: () => Promise<string>): Promise<string> {
+  const memoKey = JSON.stringify(key);
+  const hit = graphicsMemo.get(memoKey);
+  if (hit !== undefined) return hit;
 
-    // @ts-ignore - type mismatch with marked versions
-    marked.setOptions({ renderer });
+  // Only keep real graphics; a failure notice should be retried next time.
+  const result = await cachedText('graphic', key, render, isRenderedImage);
+  if (isRenderedImage(result)) {
+    graphicsMemo.set(memoKey, result);
+    if (graphicsMemo.size > GRAPHICS_MEMO_LIMIT) {
+      graphicsMemo.delete(graphicsMemo.keys().next().value as string);
+    }
+  }
+  return result;
+}
+
+// The notes as a numbered list after a rule, for the end of the document.
+function footnotesSection(notes: string[]): string {
+  if (notes.length === 0) return '';
+  const items = notes.map((note, i) => {
+    const indent = ' '.repeat(String(i + 1).length + 2);
+    return `${i + 1}. ${note.replace(/\n/g, `\n${indent}`)}`;
+  });
+  return `\n\n---\n\n${items.join('\n')}\n`;
+}
+
+export interface DirectRenderOptions {
+  /** Where rendered output goes (default: straight to stdout). */
+  output?: RenderOutput;
+  /**
+   * Called with the absolute path of every file the document depends on —
+   * the markdown file itself, the files it includes and each local image it
+   * references, whether or not it exists yet. Watch mode uses this to know what to watch.
+   */
+  onDependency?: (filePath: string) => void;
+  /**
+   * The file the content came from, when content is passed in directly;
+   * `#anchor` links point into it.
+   */
+  filePath?: string;
+}
+
+export async function renderMarkdownDirect(
+  filePathOrContent: string,
+  baseDir?: string,
+  options: DirectRenderOptions = {}
+): Promise<void> {
+  const output = options.output ?? stdoutOutput;
+  try {
+    // Load profile; an 'auto' theme follows the terminal's background
+    let profile = await loadProfile('terminal');
+    if (profile.theme === 'auto') {
+      profile = applyTerminalBackground(profile, await detectTerminalBackground());
+    }
+    // Colours for what's drawn outside marked-terminal's renderer
+    const styles = terminalStyles(profile);
 
     // Determine if input is a file path or content
     let content: string;
     let markdownDir: string;
+    let sourcePath = options.filePath;
 
     if (baseDir) {
       // Content was passed directly with a base directory
@@ -173,9 +270,39 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
     } else {
       // File path was passed
       const filePath = filePathOrContent;
+      options.onDependency?.(path.resolve(filePath));
       content = await fs.readFile(filePath, 'utf-8');
       markdownDir = path.dirname(path.resolve(filePath));
+      sourcePath = filePath;
     }
+
+    // Front matter is shown as a header card, not as a rule and raw YAML
+    const { frontMatter, body } = parseFrontMatter(content);
+
+    // Pull in included files (watch mode re-renders when they change)
+    content = await resolveIncludes(body, markdownDir, {
+      filePath: sourcePath,
+      onDependency: options.onDependency
+    });
+
+    // Footnotes: references are numbered, the notes follow the document
+    const { body: withoutNotes, footnotes } = extractFootnotes(content);
+    footnoteNumbers.clear();
+    for (const [label, number] of footnotes.numbers) footnoteNumbers.set(label, number);
+    footnoteStyle = styles.footnote;
+    content = withoutNotes + footnotesSection(footnotes.notes);
+
+    // Create renderer with profile configuration. Hyperlink escapes are only
+    // useful on a terminal; piped output keeps the visible URL.
+    const hyperlinks = process.stdout.isTTY && profile.terminal?.hyperlinks !== false
+      ? new HyperlinkCollector()
+      : undefined;
+    const renderer = createRenderer(
+      profile, { baseDir: markdownDir, filePath: sourcePath }, hyperlinks, () => parsingMathExprs
+    );
+
+    // @ts-ignore - type mismatch with marked versions
+    marked.setOptions({ renderer });
     
     // Split content by lines to process images, mermaid blocks, and display math
     const lines = content.split('\n');
@@ -195,31 +322,72 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
     };
     const termCols = process.stdout.columns || profile.terminal?.fallbackColumns || 80;
 
-    // Effective math render mode: 'pixel' (sixel/kitty image) or 'text' (Unicode
-    // approximation). 'auto' (the default) picks pixel on an interactive terminal
-    // and text when output is piped — sixel in `| less` is just garbage.
-    const mathMode: 'pixel' | 'text' =
+    // Effective render mode for rich media: 'pixel' (sixel/kitty image) or
+    // 'text' (Unicode approximation, box-drawing diagrams, character-cell
+    // images). 'auto' (the default) picks pixel on an interactive terminal and
+    // text when output is piped — sixel in `| less` is just garbage.
+    const renderMode: 'pixel' | 'text' =
       profile.renderMode === 'pixel' || profile.renderMode === 'text'
         ? profile.renderMode
         : (process.stdout.isTTY ? 'pixel' : 'text');
 
+    // Image output: the cell width to assume when the terminal doesn't report
+    // its cell size, how many rows an image may take, the sixel encoder, the
+    // glyphs for character-cell images, and the background to blend edges onto.
+    const pixelsPerColumn = profile.terminal?.pixelsPerColumn;
+    const maxRows = profile.terminal?.maxImageRows;
+    const backend = profile.terminal?.backend;
+    const symbolStyle = profile.terminal?.symbols;
+    const background = profile.terminal?.transparency?.background;
+    const caps = renderMode === 'pixel' ? await detectTerminalCapabilities() : undefined;
+    // Everything about the screen a rendered graphic depends on.
+    const screenKey = [
+      termCols, process.stdout.rows, pixelsPerColumn, maxRows, backend, symbolStyle, background, renderMode,
+      caps?.protocol, caps?.cellSize, process.env.COLORTERM
+    ];
+
+    // Without a pixel protocol, images come out as character cells; those
+    // can't sit inside a line of prose.
+    const pixelGraphics = caps !== undefined && caps.protocol !== 'symbols';
+    const fetchRemote = await remoteImagesEnabled();
+    // Which <picture> source (and #gh-*-mode-only image) to show.
+    const imageTheme = profile.theme === 'light' ? 'light' : 'dark';
+    // Cell size for images sized in pixels; text mode assumes the usual 1:2.
+    const fallbackCell = pixelsPerColumn || 8;
+    const imageCell = renderMode === 'text'
+      ? { width: 8, height: 16 }
+      : caps?.cellSize ?? { width: fallbackCell, height: fallbackCell * 2 };
+
+    // Diagrams, formulas and images render concurrently as they're found;
+    // everything is written in document order. Output that needs no rendering
+    // goes through `write` so it queues behind the blocks still in progress.
+    const scheduler = new RenderScheduler();
+    const write = (text: string): void => scheduler.emit(() => output.write(text));
+
+    if (frontMatter && hasTitleBlock(frontMatter)) {
+      write(formatFrontMatterCard(frontMatter, termCols, styles) + '\n\n');
+    }
+
     // Inline `$…$` math pulled from accumulated prose, in order of appearance.
     // Each is rendered (small sixel, or Unicode in text mode) and substituted for
     // its placeholder when the prose is flushed.
     let inlineMathExprs: string[] = [];
+    // The expressions of the prose being parsed, for tables to write as text.
+    let parsingMathExprs: string[] = [];
 
-    const substituteInlineMath = async (text: string): Promise<string> => {
-      if (inlineMathExprs.length === 0) return text;
-      const rendered = await Promise.all(inlineMathExprs.map(async (expr) => {
-        if (mathMode === 'text') return latexToUnicode(expr) || `$${expr}$`;
+    const renderInlineMath = (exprs: string[]): Promise<string[]> =>
+      Promise.all(exprs.map(async (expr) => {
+        if (renderMode === 'text' || !output.inlineGraphics || !pixelGraphics) return latexToUnicode(expr) || `$${expr}$`;
         try {
-          const svg = await renderMathToSvg(expr, {
-            displayMode: false, color: mathCfg.color, background: mathCfg.background
-          });
-          if (!svg) return `$${expr}$`;
-          const cols = Math.max(2, Math.round((svgWidthEx(svg) ?? 4) * mathCfg.inlineScale));
-          const out = await renderEmbeddedSvg(svg, {
-            width: Math.max(0.02, cols / termCols), preserveTransparency: true
+          const out = await memoGraphic(['inline-math', expr, mathCfg, screenKey], async () => {
+            const svg = await renderMathToSvg(expr, {
+              displayMode: false, color: mathCfg.color, background: mathCfg.background
+            });
+            if (!svg) return `$${expr}$`;
+            const cols = Math.max(2, Math.round((svgWidthEx(svg) ?? 4) * mathCfg.inlineScale));
+            return renderEmbeddedSvg(svg, {
+              width: Math.max(0.02, cols / termCols), preserveTransparency: true, pixelsPerColumn, backend, symbolStyle, background
+            });
           });
           // renderEmbeddedSvg never throws — it returns a "⚠ Warning…" string on
           // failure; don't splice that into the prose, fall back to the literal.
@@ -228,31 +396,208 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
           return `$${expr}$`;
         }
       }));
-      return text.replace(INLINE_MATH_PLACEHOLDER_RE, (_m: string, i: string) => rendered[Number(i)] ?? _m);
-    };
 
-    // Flush accumulated prose: parse it, substitute any inline math, write it out.
-    const flushProse = async (): Promise<void> => {
+    const substituteInlineMath = (text: string, rendered: string[]): string =>
+      text.replace(INLINE_MATH_PLACEHOLDER_RE, (_m: string, i: string) => rendered[Number(i)] ?? _m);
+
+    // Flush accumulated prose: parse it, then queue it for output — after its
+    // inline math has rendered, if it has any. Images are left out of the text
+    // and queued right after the block they appear in.
+    const flushProse = (): void => {
       if (!processedContent) return;
-      let out = marked(processedContent) as string;
-      out = await substituteInlineMath(out);
-      process.stdout.write(out);
+      const tokens = marked.lexer(processedContent);
+      const exprs = inlineMathExprs;
+      parsingMathExprs = exprs;
       processedContent = '';
       inlineMathExprs = [];
+      // Shared by every piece of text this prose is split into.
+      let mathRendered: Promise<string[]> | undefined;
+
+      let pending: Token[] = [];
+      const writeText = (): void => {
+        if (pending.length === 0) return;
+        let html = marked.parser(pending) as string;
+        pending = [];
+        if (hyperlinks) html = hyperlinks.restore(html);
+        if (exprs.length === 0 || html.search(INLINE_MATH_PLACEHOLDER_RE) < 0) {
+          write(html);
+        } else {
+          scheduler.schedule(
+            async () => substituteInlineMath(html, await (mathRendered ??= renderInlineMath(exprs))),
+            text => output.write(text)
+          );
+        }
+      };
+
+      for (const token of tokens) {
+        const rows = findImageRows(token, imageTheme);
+        if (!isImageOnly(token)) pending.push(token);
+        if (rows.length > 0) {
+          writeText();
+          rows.forEach(queueImageRow);
+        }
+      }
+      writeText();
+    };
+
+    // The caption under a row of images: titles, and the targets of linked
+    // images (clickable when hyperlinks are on).
+    const imageCaption = (row: InlineImage[]): { text: string; width: number } => {
+      const parts = row.flatMap(image => {
+        const label = image.title || (image.href ? image.alt || image.href : '');
+        if (!label) return [];
+        if (!image.href) return [{ text: label, width: displayWidth(label) }];
+        if (hyperlinks) {
+          const url = resolveHref(image.href, { baseDir: markdownDir, filePath: sourcePath });
+          return [{ text: hyperlink(url, label), width: displayWidth(label) }];
+        }
+        const shown = `${label} (${image.href})`;
+        return [{ text: shown, width: displayWidth(shown) }];
+      });
+      return {
+        text: parts.map(part => part.text).join('   '),
+        width: parts.reduce((sum, part) => sum + part.width, 0) + 3 * Math.max(0, parts.length - 1)
+      };
+    };
+
+    // The size of a picture: the configured width, unless a lone image asks
+    // for its own with `width`/`height` (pixels map onto terminal pixels,
+    // percentages onto the screen).
+    const imageSize = (row: InlineImage[]): { widthPercent: number; rows?: number } => {
+      const { width, height } = row.length === 1 ? row[0] : {};
+      let widthPercent = profile.images.widthPercent;
+      let rows = maxRows;
+      if (width) {
+        widthPercent = width.unit === '%' ? width.value / 100 : width.value / imageCell.width / termCols;
+      } else if (height) {
+        // Height alone: as wide as that height allows.
+        widthPercent = 1;
+      }
+      if (height) {
+        const screenRows = process.stdout.rows || 24;
+        const wanted = height.unit === '%'
+          ? Math.round(screenRows * height.value / 100)
+          : Math.ceil(height.value / imageCell.height);
+        rows = Math.max(1, Math.min(rows || Infinity, wanted));
+      }
+      return { widthPercent: Math.max(0.01, Math.min(1, widthPercent)), rows };
+    };
+
+    // Queue a row of images found in the prose (usually just one). Local files
+    // and downloaded remote images are drawn side by side as one picture with
+    // their caption below; the rest are listed as text.
+    const queueImageRow = (row: InlineImage[]): void => {
+      const label = row.map(image => image.alt || image.src).join(', ');
+      const sources = row.map(image => {
+        const localPath = isRemoteUrl(image.src)
+          ? undefined
+          : path.isAbsolute(image.src) ? image.src : path.resolve(markdownDir, image.src);
+        if (localPath) options.onDependency?.(localPath);
+        return { image, localPath };
+      });
+
+      const renderRow = async (): Promise<{ picture: string | null; notices: string[] }> => {
+        // Text for the images that can't be drawn, in document order.
+        const missing: (string | undefined)[] = [];
+        const found = await Promise.all(sources.map(async ({ image, localPath }, index) => {
+          const name = image.alt || image.src;
+          if (localPath) {
+            try {
+              await fs.access(localPath);
+              return localPath;
+            } catch {
+              missing[index] = `[Image not found: ${name}]\n`;
+              return undefined;
+            }
+          }
+          if (!fetchRemote) {
+            // Remote images are off - just show as text
+            missing[index] = `[External image: ${name} - ${image.src}]\n\n`;
+            return undefined;
+          }
+          try {
+            return await fetchRemoteImage(image.src);
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            missing[index] = `[External image: ${name} - ${image.src} (${reason})]\n\n`;
+            return undefined;
+          }
+        }));
+        const notices = missing.filter((n): n is string => n !== undefined);
+        const paths = found.filter((p): p is string => p !== undefined);
+        if (paths.length === 0) return { picture: null, notices };
+
+        try {
+          const imagePath = paths.length === 1 ? paths[0] : await composeImageRow(paths);
+          // The modification time is part of the memo key, so an edited
+          // image is re-rasterized while an untouched one is reused.
+          const stat = await fs.stat(imagePath);
+          const { widthPercent, rows } = imageSize(row);
+
+          // Render the image using profile settings (same as Mermaid);
+          // text mode draws it with Unicode characters instead
+          const key = ['image', imagePath, stat.mtimeMs, stat.size, profile.images, widthPercent, rows, screenKey];
+          const picture = await memoGraphic(key, () =>
+            renderMode === 'text'
+              ? renderImageAsText(imagePath, profile.images.alignment, widthPercent, rows, symbolStyle)
+              : renderImage(
+                imagePath, 
+                undefined,  // Let renderImage handle width calculation
+                false,  // Regular images don't need transparency preservation
+                backend,
+                profile.images.alignment,
+                widthPercent,  // Configured width percentage, or the image's own size
+                pixelsPerColumn,
+                rows,
+                symbolStyle,
+                background
+              )
+          );
+          return { picture, notices };
+        } catch {
+          return { picture: `[Image: ${label}]`, notices };
+        }
+      };
+
+      scheduler.schedule(renderRow, ({ picture, notices }) => {
+        if (picture !== null) {
+          // Add some spacing
+          output.write('\n');
+          if (isRenderedImage(picture)) {
+            // Write raw sixel directly
+            output.writeGraphic(picture, { kind: 'image', label });
+            const caption = imageCaption(row);
+            if (caption.text) {
+              const free = Math.max(0, termCols - caption.width);
+              const alignment = profile.images.alignment ?? 'center';
+              const indent = alignment === 'left' ? 0 : alignment === 'right' ? free : Math.floor(free / 2);
+              output.write(`${' '.repeat(indent)}${styles.caption(caption.text)}\n`);
+            }
+          } else {
+            // Fallback
+            output.write(`[Image: ${label}]\n`);
+          }
+          // Add spacing after
+          output.write('\n');
+        }
+        for (const notice of notices) {
+          output.write(notice);
+        }
+      });
     };
 
     // Flush prose, then render a display-math expression as an image sized to the
     // formula's natural extent (not stretched to fill the line) and justified per
     // config. Falls back to the literal `$$…$$` source on failure.
-    const renderDisplayMath = async (latex: string): Promise<void> => {
-      await flushProse();
+    const renderDisplayMath = (latex: string): void => {
+      flushProse();
       const expr = latex.trim();
       if (!expr) return;
-      if (mathMode === 'text') {
-        process.stdout.write(`\n  ${latexToUnicode(expr) || `$$${expr}$$`}\n\n`);
+      if (renderMode === 'text') {
+        write(`\n  ${latexToUnicode(expr) || `$$${expr}$$`}\n\n`);
         return;
       }
-      try {
+      const render = (): Promise<string> => memoGraphic(['math', expr, mathCfg, screenKey], async () => {
         const svg = await renderMathToSvg(expr, {
           displayMode: true, color: mathCfg.color, background: mathCfg.background
         });
@@ -262,14 +607,20 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
         const naturalCols = svgWidthEx(svg) ?? termCols * 0.2;
         const wantPercent = (naturalCols * mathCfg.scale) / termCols;
         const widthPercent = Math.max(mathCfg.minWidthPercent, Math.min(mathCfg.maxWidthPercent, wantPercent));
-        const rendered = await renderEmbeddedSvg(svg, {
-          width: widthPercent, alignment: mathCfg.alignment, preserveTransparency: true
+        return renderEmbeddedSvg(svg, {
+          width: widthPercent, alignment: mathCfg.alignment, preserveTransparency: true, pixelsPerColumn, maxRows, backend, symbolStyle,
+          background
         });
-        if (rendered.includes('⚠ Warning')) throw new Error('rasterization failed');
-        process.stdout.write(`\n${rendered}\n`);
-      } catch {
-        process.stdout.write(`\n$$${expr}$$\n\n`);
-      }
+      });
+      scheduler.schedule(() => render().catch(() => null), (rendered) => {
+        if (rendered === null || rendered.includes('⚠ Warning')) {
+          output.write(`\n$$${expr}$$\n\n`);
+          return;
+        }
+        output.write('\n');
+        output.writeGraphic(rendered, { kind: 'math', label: 'Formula' });
+        output.write('\n');
+      });
     };
 
     for (let i = 0; i < lines.length; i++) {
@@ -283,56 +634,76 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
           // End of mermaid block
           inMermaidBlock = false;
 
-          // First, render everything we've accumulated so far
-          await flushProse();
+          // First, queue everything we've accumulated so far
+          flushProse();
 
-          // Now render the mermaid diagram
-          try {
-            process.stdout.write('\n');
-            
-            // Convert mermaid to PNG for terminal rendering
-            // Note: SVG would be preferred but mermaid 11.x uses foreignObject with HTML
-            // for text labels, which chafa cannot render. PNG bakes text into the raster.
-            const mermaidOptions = {
-              width: profile.mermaid.width,
-              height: profile.mermaid.height,
-              theme: profile.mermaid.theme,
-              backgroundColor: profile.mermaid.backgroundColor,
-              fontFamily: profile.mermaid.fontFamily,
-              fontSize: profile.mermaid.fontSize,
-              dpi: profile.mermaid.dpi,  // Pass DPI setting
-              outputFormat: 'png' as const  // PNG required - mermaid SVG uses foreignObject HTML
-            };
-            const imagePath = await renderMermaidDiagram(mermaidContent, mermaidOptions);
-            
-            // Render image using same width calculation as regular images
-            const sixelOutput = await renderImage(
-              imagePath, 
-              undefined,  // Let renderImage handle width calculation
-              profile.terminal?.transparency.enabled || true,
-              profile.terminal?.backend || 'chafa',
-              profile.images.alignment,
-              profile.images.widthPercent  // Use the same width percentage as images
-            );
-            
-            if (sixelOutput && sixelOutput.startsWith('\x1b')) {
-              process.stdout.write(sixelOutput);
-            } else {
-              process.stdout.write('[Mermaid diagram rendering failed]\n');
-            }
-            
-            process.stdout.write('\n');
-            
-            // Clean up temp file
-            await cleanupMermaidFile(imagePath);
-          } catch (error) {
-            // If mermaid rendering fails, show the code block as text
-            process.stdout.write('```mermaid\n');
-            process.stdout.write(mermaidContent);
-            process.stdout.write('```\n');
-            process.stdout.write(`[Mermaid error: ${error instanceof Error ? error.message : String(error)}]\n\n`);
+          // Text mode: box-drawing rendering from the built-in engine, or the
+          // diagram source when it's a type the engine doesn't support.
+          if (renderMode === 'text') {
+            const ascii = renderMermaidCore(mermaidContent, 'ascii')?.ascii;
+            write('\n');
+            write(ascii ? `${ascii}\n\n` : '```mermaid\n' + mermaidContent + '```\n\n');
+            mermaidContent = '';
+            continue;
           }
-          
+
+          // Convert mermaid to PNG for terminal rendering
+          // Note: SVG would be preferred but mermaid 11.x uses foreignObject with HTML
+          // for text labels, which chafa cannot render. PNG bakes text into the raster.
+          const source = mermaidContent;
+          const mermaidOptions = {
+            width: profile.mermaid.width,
+            height: profile.mermaid.height,
+            theme: profile.mermaid.theme,
+            backgroundColor: profile.mermaid.backgroundColor,
+            fontFamily: profile.mermaid.fontFamily,
+            fontSize: profile.mermaid.fontSize,
+            dpi: profile.mermaid.dpi,  // Pass DPI setting
+            outputFormat: 'png' as const  // PNG required - mermaid SVG uses foreignObject HTML
+          };
+          const renderDiagram = (): Promise<string> => memoGraphic(['mermaid', source, mermaidOptions, profile.images, screenKey], async () => {
+            const imagePath = await renderMermaidDiagram(source, mermaidOptions);
+            try {
+              // Render image using same width calculation as regular images
+              return await renderImage(
+                imagePath, 
+                undefined,  // Let renderImage handle width calculation
+                profile.terminal?.transparency.enabled || true,
+                backend,
+                profile.images.alignment,
+                profile.images.widthPercent,  // Use the same width percentage as images
+                pixelsPerColumn,
+                maxRows,
+                symbolStyle,
+                background
+              );
+            } finally {
+              // Clean up temp file
+              await cleanupMermaidFile(imagePath);
+            }
+          });
+
+          scheduler.schedule(
+            () => renderDiagram().then(graphic => ({ graphic, error: undefined }), (error: unknown) => ({ graphic: '', error })),
+            ({ graphic, error }) => {
+              output.write('\n');
+              if (error !== undefined) {
+                // If mermaid rendering fails, show the code block as text
+                output.write('```mermaid\n');
+                output.write(source);
+                output.write('```\n');
+                output.write(`[Mermaid error: ${error instanceof Error ? error.message : String(error)}]\n\n`);
+                return;
+              }
+              if (isRenderedImage(graphic)) {
+                output.writeGraphic(graphic, { kind: 'mermaid', label: 'Mermaid diagram' });
+              } else {
+                output.write('[Mermaid diagram rendering failed]\n');
+              }
+              output.write('\n');
+            }
+          );
+
           mermaidContent = '';
           continue;
         } else if (langMatch && langMatch[1] === 'mermaid') {
@@ -371,7 +742,7 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
         }
         displayMathContent += line.slice(0, closeIdx);
         inDisplayMath = false; displayMathLines = 0;
-        await renderDisplayMath(displayMathContent);
+        renderDisplayMath(displayMathContent);
         displayMathContent = '';
         const rest = line.slice(closeIdx + 2);
         if (rest.trim()) processedContent += extractInlineMath(rest, inlineMathExprs) + '\n';
@@ -386,7 +757,7 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
             inDisplayMath = true; displayMathLines = 0;
             displayMathContent = afterOpen + '\n';
           } else {
-            await renderDisplayMath(afterOpen.slice(0, closeIdx));
+            renderDisplayMath(afterOpen.slice(0, closeIdx));
             const rest = afterOpen.slice(closeIdx + 2);
             if (rest.trim()) processedContent += extractInlineMath(rest, inlineMathExprs) + '\n';
           }
@@ -436,92 +807,57 @@ export async function renderMarkdownDirect(filePathOrContent: string, baseDir?:
           const extractedSvg = extractSvgFromHtml(svgContent);
           
           if (extractedSvg) {
-            // First, render everything we've accumulated so far
-            await flushProse();
+            // First, queue everything we've accumulated so far
+            flushProse();
 
             // Render the SVG
-            process.stdout.write('\n');
-            
-            const svgOutput = await renderEmbeddedSvg(extractedSvg, {
-              width: profile.images.widthPercent,
-              alignment: profile.images.alignment
+            const renderSvg = (): Promise<string> => memoGraphic(['svg', extractedSvg, profile.images, screenKey], () =>
+              renderEmbeddedSvg(extractedSvg, {
+                width: profile.images.widthPercent,
+                alignment: profile.images.alignment,
+                pixelsPerColumn,
+                maxRows,
+                backend,
+                text: renderMode === 'text',
+                symbolStyle,
+                background
+              })
+            );
+
+            scheduler.schedule(renderSvg, (svgOutput) => {
+              output.write('\n');
+              // renderEmbeddedSvg returns either the rendered image or a warning message
+              if (isRenderedImage(svgOutput)) {
+                output.writeGraphic(svgOutput, { kind: 'svg', label: 'SVG graphic' });
+              } else {
+                output.write(svgOutput);
+              }
+              output.write('\n');
             });
-            
-            // renderEmbeddedSvg now returns either the rendered image or a warning message
-            process.stdout.write(svgOutput);
-            process.stdout.write('\n');
-            
+
             continue;
           }
         }
       }
-      
-      // Check for image syntax ![alt](src)
-      // Allow whitespace before/after for standalone images
-      const imageMatch = line.match(/^\s*!\[([^\]]*)\]\(([^)]+)\)\s*$/);
-      
-      if (!inCodeBlock && imageMatch) {
-        const [_, alt, src] = imageMatch;
 
-        // First, render everything we've accumulated so far
-        await flushProse();
-
-        // Now handle the image directly
-        if (!src.startsWith('http')) {
-          const imagePath = path.isAbsolute(src) ? src : path.resolve(markdownDir, src);
-          
-          try {
-            await fs.access(imagePath);
-            
-            // Add some spacing
-            process.stdout.write('\n');
-            
-            // Render the image using profile settings (same as Mermaid)
-            const sixelOutput = await renderImage(
-              imagePath, 
-              undefined,  // Let renderImage handle width calculation
-              false,  // Regular images don't need transparency preservation
-              profile.terminal?.backend || 'chafa',
-              profile.images.alignment,
-              profile.images.widthPercent  // Use configured width percentage
-            );
-            
-            if (sixelOutput && sixelOutput.startsWith('\x1b')) {
-              // Write raw sixel directly
-              process.stdout.write(sixelOutput);
-            } else {
-              // Fallback
-              process.stdout.write(`[Image: ${alt || src}]\n`);
-            }
-            
-            // Add spacing after
-            process.stdout.write('\n');
-          } catch (error) {
-            // If image fails, show as text
-            process.stdout.write(`[Image not found: ${alt || src}]\n`);
-          }
-        } else {
-          // External image - just show as text
-          process.stdout.write(`[External image: ${alt || src} - ${src}]\n\n`);
-        }
-      } else {
-        // Regular line: pull out inline $…$ math (rendered at flush time) and
-        // accumulate. Lines inside a fenced code block — or a 4-space/tab
-        // indented code block that isn't a list item — pass through verbatim.
-        const indented = line.match(/^(?: {4,}|\t)(.*)$/);
-        const looksIndentedCode =
-          !inCodeBlock && indented !== null && !/^\s*(?:[-*+]|\d+[.)])\s/.test(indented[1]);
-        processedContent +=
-          (inCodeBlock || looksIndentedCode ? line : extractInlineMath(line, inlineMathExprs)) + '\n';
-      }
+      // Regular line: pull out inline $…$ math (rendered at flush time) and
+      // accumulate. Lines inside a fenced code block — or a 4-space/tab
+      // indented code block that isn't a list item — pass through verbatim.
+      // Images are picked out of the parsed prose when it's flushed.
+      const indented = line.match(/^(?: {4,}|\t)(.*)$/);
+      const looksIndentedCode =
+        !inCodeBlock && indented !== null && !/^\s*(?:[-*+]|\d+[.)])\s/.test(indented[1]);
+      processedContent +=
+        (inCodeBlock || looksIndentedCode ? line : extractInlineMath(line, inlineMathExprs)) + '\n';
     }
 
     // An unterminated $$… block: emit it as literal text rather than dropping it.
     if (inDisplayMath && displayMathContent.trim()) {
       processedContent += '$$' + displayMathContent;
     }
-    // Render any remaining content
-    await flushProse();
+    // Render any remaining content, then wait for everything to be written
+    flushProse();
+    await scheduler.drain();
     
   } catch (error) {
     const err = error as NodeJS.ErrnoException;
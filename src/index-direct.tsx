@@ -4,10 +4,21 @@ import { renderMarkdownDirect } from './direct-renderer.js';
 import { renderMarkdownToPdf } from './lib/pdf-renderer.js';
 import { renderMarkdownToOdt } from './lib/odt-renderer.js';
 import { checkDependencies, printDependencyWarnings } from './lib/check-deps.js';
+import { Pager, type PagerPage } from './lib/pager.js';
+import { detectTerminalCapabilities } from './lib/terminal-caps.js';
+import type { RenderOutput } from './lib/render-output.js';
+import { FileWatcher, findEditedHeading } from './lib/watch.js';
+import { parseHeadings, formatToc, extractSection } from './lib/sections.js';
+import { clearCache, disableCache, getCacheStats } from './lib/cache.js';
+import { setRemoteImages } from './lib/remote.js';
+import { resolveIncludes, type IncludeOptions } from './lib/include.js';
+import { parseFrontMatter } from './lib/front-matter.js';
 import { getVersionString } from './version.js';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
 import path from 'path';
 import { spawn } from 'child_process';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,22 +28,39 @@ const cli = meow(`
 
   Usage
     $ mmm [file]
+    $ mmm --pager [file]
+    $ mmm --watch [file]
+    $ mmm --toc [file]
+    $ mmm --section <heading> [file]
     $ cat file.md | mmm
     $ mmm --pdf [file] [output]
     $ mmm --odt [file] [output]
     $ mmm --settings
+    $ mmm cache stats|clear
 
   Options
     --help, -h   Show help
     --version    Show version
-    --check      Check dependencies and exit
+    --check      Check dependencies and terminal graphics support, then exit
     --settings   Configure MMM settings interactively
+    --pager      Page through the output (keeps images and diagrams on screen)
+    --watch      Re-render whenever the file or its images change (implies --pager)
+    --toc        Print a numbered outline of the headings, then exit
+    --section    Show only the section with this heading (title or outline number) and its subsections
     --pdf        Generate PDF instead of terminal output
     --odt        Generate ODT instead of terminal output
     --profile    Specify render profile (default: terminal for display, pdf for --pdf, odt for --odt)
+    --no-cache   Render everything from scratch (don't read or write the render cache)
+    --remote-images  Download http(s) images (size-capped, cached for remoteImages.maxAgeHours) instead of showing their URL
+    --offline    Never download remote images, whatever the config says
 
   Examples
     $ mmm README.md
+    $ mmm --pager README.md
+    $ mmm --watch docs/guide.md
+    $ mmm --toc runbook.md
+    $ mmm --section "Installation" README.md
+    $ mmm --section 2.1 runbook.md
     $ cat README.md | mmm
     $ echo "# Hello" | mmm
     $ mmm --pdf README.md
@@ -40,9 +68,11 @@ const cli = meow(`
     $ mmm --odt README.md
     $ mmm --odt README.md output.odt
     $ mmm --profile print --pdf README.md
+    $ mmm --remote-images README.md
     $ mmm --settings
     $ mmm docs/guide.md
     $ mmm --check
+    $ mmm cache stats
 `, {
   importMeta: import.meta,
   flags: {
@@ -54,6 +84,22 @@ const cli = meow(`
       type: 'boolean',
       default: false
     },
+    pager: {
+      type: 'boolean',
+      default: false
+    },
+    watch: {
+      type: 'boolean',
+      default: false
+    },
+    toc: {
+      type: 'boolean',
+      default: false
+    },
+    section: {
+      type: 'string',
+      default: ''
+    },
     pdf: {
       type: 'boolean',
       default: false
@@ -65,6 +111,18 @@ const cli = meow(`
     profile: {
       type: 'string',
       default: ''
+    },
+    cache: {
+      type: 'boolean',
+      default: true
+    },
+    remoteImages: {
+      type: 'boolean',
+      default: false
+    },
+    offline: {
+      type: 'boolean',
+      default: false
     }
   }
 });
@@ -91,6 +149,138 @@ function hasStdinData(): boolean {
   return !process.stdin.isTTY;
 }
 
+// Read the markdown file, exiting with a short message when it can't be read.
+async function readSource(inputFile: string): Promise<string> {
+  try {
+    return await fs.readFile(inputFile, 'utf-8');
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    console.error(`mmm: cannot open '${inputFile}': ${err.code === 'ENOENT' ? 'no such file' : err.message}`);
+    process.exit(1);
+  }
+}
+
+// `source` with its include directives expanded, as the renderers see it;
+// the front matter is left as it is.
+async function withIncludes(source: string, baseDir: string, options: IncludeOptions = {}): Promise<string> {
+  const lines = source.split('\n');
+  const { lineCount } = parseFrontMatter(source);
+  const body = await resolveIncludes(lines.slice(lineCount).join('\n'), baseDir, options);
+  return [...lines.slice(0, lineCount), body].join('\n');
+}
+
+// The part of `source` that --section asks for (all of it without --section),
+// or undefined when there's no such heading. Headings in included files
+// count too.
+async function sectionOf(
+  source: string,
+  section: string,
+  baseDir: string,
+  options: IncludeOptions = {}
+): Promise<string | undefined> {
+  return section ? extractSection(await withIncludes(source, baseDir, options), section) : source;
+}
+
+function sectionNotFound(section: string): string {
+  return `No section matching "${section}". Run \`mmm --toc\` to list the headings.`;
+}
+
+// A followed link to a local markdown file opens in the pager; anything else
+// (web pages, other files) goes to the system opener.
+function linkedPage(url: string): PagerPage | undefined {
+  if (!url.startsWith('file:')) return undefined;
+  const filePath = fileURLToPath(url);
+  if (!/\.(md|markdown)$/i.test(filePath) || !existsSync(filePath)) return undefined;
+  return {
+    title: path.basename(filePath),
+    url,
+    render: output => renderMarkdownDirect(filePath, undefined, { output })
+  };
+}
+
+// Show `inputFile` in the pager and re-render it whenever the file or any
+// local image it references changes on disk. Returns when the user quits.
+async function watchDocument(inputFile: string, section: string): Promise<void> {
+  const filePath = path.resolve(inputFile);
+  const baseDir = path.dirname(filePath);
+  let source = await readSource(filePath);
+  let dependencies = new Set<string>([filePath]);
+
+  const pager = new Pager(async (output) => {
+    const found = new Set<string>([filePath]);
+    // The heading may be mid-rename while editing; say so until it's back.
+    const shown = await sectionOf(source, section, baseDir, { filePath, onDependency: f => found.add(f) }) ??
+      `> ${sectionNotFound(section)}\n`;
+    await renderMarkdownDirect(shown, baseDir, { output, filePath, onDependency: f => found.add(f) });
+    dependencies = found;
+  }, {
+    title: `${path.basename(inputFile)}${section ? ` § ${section}` : ''} (watching)`,
+    url: pathToFileURL(filePath).href,
+    openLink: linkedPage
+  });
+
+  // Changes that arrive mid-render are folded into one more render afterwards.
+  let reloading = false;
+  let pending = false;
+  const reload = async (): Promise<void> => {
+    if (reloading) {
+      pending = true;
+      return;
+    }
+    reloading = true;
+    try {
+      do {
+        pending = false;
+        let updated: string;
+        try {
+          updated = await fs.readFile(filePath, 'utf-8');
+        } catch {
+          // Mid-save (the editor removed the file before renaming the new
+          // one into place); the rename brings another event.
+          continue;
+        }
+        // Keep the section being edited in view.
+        const anchor = findEditedHeading(source, updated);
+        source = updated;
+        await pager.load(anchor);
+        watcher.setFiles(dependencies);
+      } while (pending);
+    } finally {
+      reloading = false;
+    }
+  };
+
+  const watcher = new FileWatcher(() => { void reload(); });
+  await pager.load();
+  watcher.setFiles(dependencies);
+  await pager.run();
+  watcher.close();
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// `mmm cache stats` / `mmm cache clear`
+async function cacheCommand(action: string | undefined): Promise<void> {
+  if (action === 'clear') {
+    const removed = await clearCache();
+    console.log(`Removed ${removed} cached ${removed === 1 ? 'entry' : 'entries'}.`);
+  } else if (action === 'stats') {
+    const stats = await getCacheStats();
+    console.log(`Render cache: ${stats.dir}${stats.enabled ? '' : ' (disabled in config)'}`);
+    console.log(`  ${stats.entries} entries, ${formatBytes(stats.bytes)} of ${formatBytes(stats.maxBytes)}`);
+    for (const [kind, { entries, bytes }] of Object.entries(stats.kinds).sort()) {
+      console.log(`  ${kind.padEnd(9)} ${String(entries).padStart(6)}  ${formatBytes(bytes)}`);
+    }
+  } else {
+    console.error('Usage: mmm cache stats|clear');
+    process.exit(1);
+  }
+}
+
 // Main entry point
 async function main() {
   // Handle settings command
@@ -107,13 +297,39 @@ async function main() {
     return;
   }
 
+  // `mmm cache …` — unless there's a markdown file called "cache" to show.
+  if (cli.input[0] === 'cache' && (cli.input.length > 1 || !existsSync('cache'))) {
+    await cacheCommand(cli.input[1]);
+    return;
+  }
+
+  if (!cli.flags.cache) {
+    disableCache();
+  }
+
+  if (cli.flags.offline) {
+    setRemoteImages(false);
+  } else if (cli.flags.remoteImages) {
+    setRemoteImages(true);
+  }
+
   // Check dependencies
   const deps = checkDependencies();
 
   if (cli.flags.check) {
     console.log('Dependency Status:');
-    console.log(`  chafa:    ${deps.chafa ? '✅' : '❌'}`);
+    console.log(`  chafa:    ${deps.chafa ? '✅' : '❌ (optional — built-in sixel encoder in use)'}`);
     console.log(`  mermaid:  ${deps.mermaidCli ? '✅' : '❌'}`);
+
+    const caps = await detectTerminalCapabilities();
+    console.log('');
+    console.log('Terminal Graphics:');
+    if (caps.terminalName) console.log(`  terminal: ${caps.terminalName}`);
+    console.log(`  sixel:    ${caps.sixel ? '✅' : '❌'}${caps.sixelGeometry ? ` (max ${caps.sixelGeometry.width}x${caps.sixelGeometry.height}px)` : ''}`);
+    console.log(`  kitty:    ${caps.kitty ? '✅' : '❌'}`);
+    console.log(`  iTerm2:   ${caps.iterm ? '✅' : '❌'}`);
+    console.log(`  using:    ${caps.protocol}${caps.probed ? '' : ' (guessed from environment — terminal did not answer)'}`);
+    console.log('');
     printDependencyWarnings(deps);
     process.exit(deps.hasImageSupport ? 0 : 1);
   }
@@ -121,6 +337,17 @@ async function main() {
   const inputFile = cli.input[0];
   const hasStdin = hasStdinData();
 
+  if (cli.flags.watch) {
+    if (!inputFile) {
+      console.error('Watch mode requires a file path. Please provide a file.');
+      process.exit(1);
+    }
+    if (!process.stdout.isTTY) {
+      console.error('Watch mode needs a terminal to draw on.');
+      process.exit(1);
+    }
+  }
+
   if (!inputFile && !hasStdin) {
     console.error('Please provide a markdown file to view or pipe content via stdin');
     console.log(cli.help);
@@ -128,7 +355,12 @@ async function main() {
   }
   
   try {
-    if (cli.flags.pdf) {
+    if (cli.flags.toc) {
+      const source = inputFile ? await readSource(inputFile) : await readStdin();
+      const baseDir = inputFile ? path.dirname(path.resolve(inputFile)) : process.cwd();
+      const headings = parseHeadings(await withIncludes(source, baseDir, { filePath: inputFile || undefined }));
+      console.log(headings.length > 0 ? formatToc(headings) : 'No headings found.');
+    } else if (cli.flags.pdf) {
       // PDF generation mode
       if (!inputFile) {
         console.error('PDF generation requires a file path. Please provide a file.');
@@ -162,11 +394,35 @@ async function main() {
       // A file argument always wins; stdin is the fallback (e.g. `cat x.md | mmm`).
       // Without this, running `mmm x.md` from any non-TTY context (a script, a
       // pipe) would silently ignore the file and read empty stdin instead.
-      if (inputFile) {
-        await renderMarkdownDirect(inputFile);
+      let content = inputFile ? undefined : await readStdin();
+      const section = cli.flags.section;
+      const baseDir = inputFile ? path.dirname(path.resolve(inputFile)) : process.cwd();
+      if (section && !cli.flags.watch) {
+        // Only the section goes through the renderer; its images still
+        // resolve relative to the file.
+        content = await sectionOf(content ?? await readSource(inputFile), section, baseDir, {
+          filePath: inputFile || undefined
+        });
+        if (content === undefined) {
+          console.error(sectionNotFound(section));
+          process.exit(1);
+        }
+      }
+      const render = (output?: RenderOutput) => content === undefined
+        ? renderMarkdownDirect(inputFile, undefined, { output })
+        : renderMarkdownDirect(content, baseDir, { output, filePath: inputFile || undefined });
+
+      // The pager needs a terminal to draw on; piped output is rendered as usual.
+      if (cli.flags.watch) {
+        await watchDocument(inputFile, section);
+      } else if (cli.flags.pager && process.stdout.isTTY) {
+        const title = (inputFile ? path.basename(inputFile) : 'stdin') + (section ? ` § ${section}` : '');
+        const url = inputFile ? pathToFileURL(path.resolve(inputFile)).href : undefined;
+        const pager = new Pager(render, { title, url, openLink: linkedPage });
+        await pager.load();
+        await pager.run();
       } else {
-        const content = await readStdin();
-        await renderMarkdownDirect(content, process.cwd());
+        await render();
       }
     }
   } catch (error) {
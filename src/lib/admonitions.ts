@@ -0,0 +1,179 @@
+import chalk from 'chalk';
+import type { Token, TokenizerAndRendererExtension, TokenizerThis, RendererThis } from 'marked';
+import { displayWidth, wrapText } from './terminal-text.js';
+
+/**
+ * Admonitions: GitHub alerts and `:::` containers.
+ *
+ *     > [!WARNING]
+ *     > Back up first.
+ *
+ *     :::tip Optional title
+ *     Body in **markdown**.
+ *     :::
+ *
+ * Both parse to an `admonition` token holding the kind, a title and the body
+ * tokens. The terminal draws a coloured box with an icon, the PDF a styled
+ * callout, and the ODT export (which goes through pandoc rather than marked)
+ * rewrites them with {@link rewriteAdmonitions}.
+ */
+
+export type AdmonitionKind = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export interface AdmonitionToken {
+  type: 'admonition';
+  raw: string;
+  kind: AdmonitionKind;
+  title: string;
+  tokens: Token[];
+}
+
+/**
+ * How each kind looks: its default title and an icon. The terminal colours
+ * come from its theme (terminal-theme.ts).
+ */
+export const admonitionStyles: Record<AdmonitionKind, { title: string; icon: string }> = {
+  note: { title: 'Note', icon: 'ℹ' },
+  tip: { title: 'Tip', icon: '✦' },
+  important: { title: 'Important', icon: '❢' },
+  warning: { title: 'Warning', icon: '⚠' },
+  caution: { title: 'Caution', icon: '✖' }
+};
+
+// Other names containers use for the same kinds (Docusaurus, MkDocs).
+const ALIASES: Record<string, AdmonitionKind> = {
+  info: 'note',
+  hint: 'tip',
+  success: 'tip',
+  attention: 'warning',
+  danger: 'caution',
+  error: 'caution'
+};
+
+// `> [!KIND] optional title` and the quote lines after it.
+const ALERT_RE = /^ {0,3}> ?\[!([\w-]+)\][ \t]*([^\n]*)(?:\n|$)((?: {0,3}>[^\n]*(?:\n|$))*)/;
+// `:::kind optional title`, the body, and a closing fence of as many colons.
+const CONTAINER_RE = /^ {0,3}(:{3,})[ \t]*([\w-]+)[ \t]*([^\n]*)\n((?:[^\n]*\n)*?) {0,3}\1[ \t]*(?:\n|$)/;
+
+interface Admonition {
+  kind: AdmonitionKind;
+  title: string;
+  /** The markdown inside, quote markers removed. */
+  body: string;
+  /** Length of the source it was read from. */
+  length: number;
+}
+
+/**
+ * A marked extension for admonitions; `render` turns a token into the
+ * output format (its `this.parser` renders the body tokens).
+ */
+export function admonitionExtension(
+  render: (this: RendererThis, token: AdmonitionToken) => string
+): TokenizerAndRendererExtension {
+  return {
+    name: 'admonition',
+    level: 'block',
+    start(src: string) {
+      return src.match(/^ {0,3}(?:> ?\[!|:::)/m)?.index;
+    },
+    tokenizer(this: TokenizerThis, src: string) {
+      const admonition = readAdmonition(src);
+      if (!admonition) return undefined;
+      return {
+        type: 'admonition',
+        raw: src.slice(0, admonition.length),
+        kind: admonition.kind,
+        title: admonition.title,
+        tokens: this.lexer.blockTokens(admonition.body, [])
+      };
+    },
+    renderer(this: RendererThis, token) {
+      return render.call(this, token as AdmonitionToken);
+    }
+  };
+}
+
+/**
+ * Replace the admonitions in `markdown` (outside code blocks) with what
+ * `replace` makes of them.
+ */
+export function rewriteAdmonitions(
+  markdown: string,
+  replace: (admonition: { kind: AdmonitionKind; title: string; body: string }) => string
+): string {
+  let output = '';
+  let rest = markdown;
+  let fence: string | undefined;
+  while (rest) {
+    const admonition = fence === undefined ? readAdmonition(rest) : undefined;
+    if (admonition) {
+      output += replace(admonition) + '\n';
+      rest = rest.slice(admonition.length);
+      continue;
+    }
+    const end = rest.indexOf('\n');
+    const line = end === -1 ? rest : rest.slice(0, end + 1);
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (marker && fence === undefined) fence = marker;
+    else if (marker && fence !== undefined && marker[0] === fence[0] && marker.length >= fence.length) fence = undefined;
+    output += line;
+    rest = rest.slice(line.length);
+  }
+  return output;
+}
+
+/**
+ * The terminal box: a rounded frame drawn with `color` (the kind's, from
+ * the theme) with the icon and title in its top edge. `body` is the rendered
+ * content, laid out to fit inside `columns`; lines that don't (code, long
+ * URLs) are wrapped.
+ */
+export function formatAdmonitionBox(
+  token: AdmonitionToken,
+  body: string,
+  columns: number,
+  color: (text: string) => string
+): string {
+  const style = admonitionStyles[token.kind];
+  const label = ` ${style.icon} ${token.title} `;
+  const inner = Math.max(columns - 4, 10);
+  const lines = wrapText(body.replace(/^\n+|\n+$/g, ''), inner);
+  const width = Math.min(Math.max(displayWidth(label) + 1, ...lines.map(line => displayWidth(line))), inner);
+  return [
+    color(`╭─${chalk.bold(label)}${'─'.repeat(Math.max(width - displayWidth(label), 0))}─╮`),
+    ...lines.map(line => `${color('│')} ${line}${' '.repeat(Math.max(width - displayWidth(line), 0))} ${color('│')}`),
+    color(`╰${'─'.repeat(width + 2)}╯`)
+  ].join('\n');
+}
+
+// The admonition at the start of `src`, if there is one.
+function readAdmonition(src: string): Admonition | undefined {
+  const alert = ALERT_RE.exec(src);
+  if (alert) {
+    const kind = kindOf(alert[1]);
+    if (!kind) return undefined;
+    const body = alert[3].split('\n').map(line => line.replace(/^ {0,3}> ?/, '')).join('\n');
+    return { kind, title: titleOf(alert[2], kind), body, length: alert[0].length };
+  }
+
+  const container = CONTAINER_RE.exec(src);
+  if (container) {
+    const kind = kindOf(container[2]) ?? 'note';
+    // An unknown kind still makes a box, titled with its name.
+    const fallback = kindOf(container[2]) ? '' : container[2].charAt(0).toUpperCase() + container[2].slice(1);
+    return { kind, title: titleOf(container[3] || fallback, kind), body: container[4], length: container[0].length };
+  }
+  return undefined;
+}
+
+function kindOf(name: string): AdmonitionKind | undefined {
+  const lower = name.toLowerCase();
+  if (Object.hasOwn(admonitionStyles, lower)) return lower as AdmonitionKind;
+  return Object.hasOwn(ALIASES, lower) ? ALIASES[lower] : undefined;
+}
+
+// A given title (quotes removed), or the kind's own.
+function titleOf(title: string, kind: AdmonitionKind): string {
+  return title.trim().replace(/^(["'])(.*)\1$/, '$2') || admonitionStyles[kind].title;
+}
@@ -0,0 +1,293 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { loadConfig } from './config.js';
+import { getVersionString } from '../version.js';
+
+/**
+ * Persistent render cache.
+ *
+ * Rendering math (MathJax), diagrams and terminal graphics is the slow part of
+ * showing a document, and the result only depends on the source and a few
+ * settings. Results are stored content-addressed under
+ * `$XDG_CACHE_HOME/mmm/<kind>/<sha256>`, where the hash covers the source,
+ * every setting that affects the output, and the MMM version (so an upgrade
+ * never serves output from an older renderer).
+ *
+ * The cache is bounded by size: a hit refreshes the entry's access time, and
+ * when a write pushes the total over the limit the least recently used
+ * entries are removed. The modification time stays the time the entry was
+ * written, for entries that expire (see {@link cachedFile}). All failures (read-only home, full disk) degrade to rendering
+ * without the cache.
+ */
+
+const DEFAULT_MAX_SIZE_MB = 256;
+
+// When over the limit, evict down to this fraction of it so the next few
+// writes don't each trigger another scan.
+const EVICT_TO = 0.8;
+
+export interface CacheStats {
+  dir: string;
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  /** Entry count and size per kind (math, mermaid, graphic, ...). */
+  kinds: Record<string, { entries: number; bytes: number }>;
+}
+
+interface CacheSettings {
+  enabled: boolean;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  file: string;
+  kind: string;
+  size: number;
+  /** When it was last used. */
+  atimeMs: number;
+}
+
+let disabled = false;
+let settings: Promise<CacheSettings> | undefined;
+// Running total of the cache size, measured on the first write of the process.
+let knownSize: number | undefined;
+
+/** The cache directory: `$XDG_CACHE_HOME/mmm`, or `~/.cache/mmm`. */
+export function cacheDir(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(cacheHome, 'mmm');
+}
+
+/** Turn the cache off for this process (`--no-cache`). */
+export function disableCache(): void {
+  disabled = true;
+}
+
+function loadSettings(): Promise<CacheSettings> {
+  settings ??= loadConfig().then(config => ({
+    enabled: config.cache?.enabled ?? true,
+    maxBytes: (config.cache?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024
+  }));
+  return settings;
+}
+
+async function isEnabled(): Promise<boolean> {
+  return !disabled && (await loadSettings()).enabled;
+}
+
+function entryPath(kind: string, key: unknown[]): string {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify([getVersionString(), ...key]))
+    .digest('hex');
+  return path.join(cacheDir(), kind, hash);
+}
+
+/**
+ * Return the cached result for `key`, or call `render` and store what it
+ * produces. `null` results, and any rejected by `keep` (failure notices that
+ * should be retried next time), are returned but not stored.
+ */
+export async function cachedText<T extends string | null>(
+  kind: string,
+  key: unknown[],
+  render: () => Promise<T>,
+  keep: (value: string) => boolean = () => true
+): Promise<T> {
+  if (!(await isEnabled())) return render();
+
+  const file = entryPath(kind, key);
+  const hit = await readEntry(file);
+  if (hit !== undefined) return hit.toString('utf-8') as T;
+
+  const result = await render();
+  if (result !== null && keep(result)) await writeEntry(file, result);
+  return result;
+}
+
+/** Like {@link cachedText}, for binary output (rasterized diagrams). */
+export async function cachedBuffer(
+  kind: string,
+  key: unknown[],
+  render: () => Promise<Buffer>
+): Promise<Buffer> {
+  if (!(await isEnabled())) return render();
+
+  const file = entryPath(kind, key);
+  const hit = await readEntry(file);
+  if (hit !== undefined) return hit;
+
+  const result = await render();
+  await writeEntry(file, result);
+  return result;
+}
+
+/**
+ * Like {@link cachedBuffer}, for results other tools read from disk (images
+ * handed to sharp, chafa or pandoc): returns the path of a file holding the
+ * result, named with the extension `render` reports. With the cache off the
+ * file is written to the temp directory instead.
+ *
+ * With `maxAgeMs`, an entry written longer ago than that is produced again;
+ * if `render` then fails, the old entry is still returned.
+ */
+export async function cachedFile(
+  kind: string,
+  key: unknown[],
+  render: () => Promise<{ data: Buffer; extension: string }>,
+  maxAgeMs?: number
+): Promise<string> {
+  const base = entryPath(kind, key);
+  const enabled = await isEnabled();
+  const hit = enabled ? await findFile(base) : undefined;
+  if (hit !== undefined && (maxAgeMs === undefined || Date.now() - hit.writtenMs <= maxAgeMs)) {
+    return hit.file;
+  }
+
+  let result: { data: Buffer; extension: string };
+  try {
+    result = await render();
+  } catch (error) {
+    if (hit !== undefined) return hit.file;
+    throw error;
+  }
+  const { data, extension } = result;
+  if (enabled) {
+    const file = `${base}.${extension}`;
+    if (hit !== undefined && hit.file !== file) await fs.unlink(hit.file).catch(() => {});
+    if (await writeEntry(file, data)) return file;
+  }
+  const temp = path.join(os.tmpdir(), `mmm-${kind}-${path.basename(base)}.${extension}`);
+  await fs.writeFile(temp, data);
+  return temp;
+}
+
+// The cached file for `base` whatever its extension, and when it was
+// written; marked recently used.
+async function findFile(base: string): Promise<{ file: string; writtenMs: number } | undefined> {
+  const name = path.basename(base);
+  try {
+    const match = (await fs.readdir(path.dirname(base)))
+      .find(file => file.startsWith(`${name}.`) && !file.endsWith('.tmp'));
+    if (match === undefined) return undefined;
+    const file = path.join(path.dirname(base), match);
+    return { file, writtenMs: await markUsed(file) };
+  } catch {
+    return undefined;
+  }
+}
+
+async function readEntry(file: string): Promise<Buffer | undefined> {
+  try {
+    const data = await fs.readFile(file);
+    await markUsed(file).catch(() => {});
+    return data;
+  } catch {
+    return undefined;
+  }
+}
+
+// Mark an entry recently used for eviction: only its access time changes,
+// its modification time stays when it was written. Returns that time.
+async function markUsed(file: string): Promise<number> {
+  const { mtime } = await fs.stat(file);
+  await fs.utimes(file, new Date(), mtime);
+  return mtime.getTime();
+}
+
+// Store an entry; false when it couldn't be written.
+async function writeEntry(file: string, data: string | Buffer): Promise<boolean> {
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write and rename, so a concurrent reader never sees half an entry.
+    const temp = `${file}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, file);
+  } catch {
+    // Not cached this time; rendering still succeeded.
+    return false;
+  }
+
+  try {
+    knownSize ??= (await listEntries()).reduce((sum, e) => sum + e.size, 0);
+    knownSize += Buffer.byteLength(data);
+    const { maxBytes } = await loadSettings();
+    if (knownSize > maxBytes) knownSize = await evict(maxBytes * EVICT_TO);
+  } catch {
+    // Size bookkeeping failed; the next process measures again.
+  }
+  return true;
+}
+
+// Remove the least recently used entries until the cache fits in `target`
+// bytes. Returns the new total.
+async function evict(target: number): Promise<number> {
+  const entries = (await listEntries()).sort((a, b) => a.atimeMs - b.atimeMs);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= target) break;
+    await fs.unlink(entry.file).catch(() => {});
+    total -= entry.size;
+  }
+  return total;
+}
+
+async function listEntries(): Promise<CacheEntry[]> {
+  const root = cacheDir();
+  const entries: CacheEntry[] = [];
+  let kinds: string[];
+  try {
+    kinds = await fs.readdir(root);
+  } catch {
+    return entries;
+  }
+  for (const kind of kinds) {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(root, kind));
+    } catch {
+      continue;
+    }
+    for (const name of files) {
+      const file = path.join(root, kind, name);
+      try {
+        const stat = await fs.stat(file);
+        if (stat.isFile()) entries.push({ file, kind, size: stat.size, atimeMs: stat.atimeMs });
+      } catch {
+        // Removed by another process meanwhile.
+      }
+    }
+  }
+  return entries;
+}
+
+/** Size and contents of the cache, for `mmm cache stats`. */
+export async function getCacheStats(): Promise<CacheStats> {
+  const { enabled, maxBytes } = await loadSettings();
+  const entries = await listEntries();
+  const kinds: CacheStats['kinds'] = {};
+  for (const entry of entries) {
+    const kind = (kinds[entry.kind] ??= { entries: 0, bytes: 0 });
+    kind.entries++;
+    kind.bytes += entry.size;
+  }
+  return {
+    dir: cacheDir(),
+    enabled,
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+    maxBytes,
+    kinds
+  };
+}
+
+/** Delete every cached entry. Returns how many were removed. */
+export async function clearCache(): Promise<number> {
+  const entries = await listEntries();
+  await fs.rm(cacheDir(), { recursive: true, force: true });
+  knownSize = 0;
+  return entries.length;
+}
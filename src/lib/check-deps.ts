@@ -18,7 +18,7 @@ export function checkDependencies(): DependencyStatus {
     hasImageSupport: false
   };
 
-  // Check for chafa
+  // Check for chafa (optional — alternative sixel backend and symbol output)
   try {
     execSync('which chafa', { stdio: 'pipe' });
     status.chafa = true;
@@ -27,6 +27,14 @@ export function checkDependencies(): DependencyStatus {
     // Not found
   }
 
+  // The built-in sixel encoder only needs sharp
+  try {
+    _require.resolve('sharp');
+    status.hasImageSupport = true;
+  } catch {
+    // Not installed
+  }
+
   // Check for mermaid CLI
   try {
     execSync('npx mmdc --version', { stdio: 'pipe' });
@@ -49,8 +57,9 @@ export function checkDependencies(): DependencyStatus {
 
 export function printDependencyWarnings(status: DependencyStatus): void {
   if (!status.hasImageSupport) {
-    console.error('\n⚠️  Warning: Chafa not found!');
+    console.error('\n⚠️  Warning: No image renderer available!');
     console.error('   Images and diagrams will not display.');
+    console.error('   Reinstall mmm so its sharp dependency is present, or install chafa:');
     console.error('');
     console.error('   Ubuntu/Debian:  sudo apt install chafa');
     console.error('   macOS:          brew install chafa');
@@ -1,13 +1,15 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import type { TerminalBackground } from './terminal-caps.js';
 
 // Profile-specific configuration
 export interface RenderProfile {
   name: string;
   output: 'terminal' | 'pdf' | 'odt';
-  theme: 'dark' | 'light';
-  // How rich-media (currently: math; later: mermaid, images) renders in the
+  // 'auto' (terminal only) follows the terminal's background; see applyTerminalBackground
+  theme: 'dark' | 'light' | 'auto';
+  // How rich-media (currently: math and mermaid; later: images) renders in the
   // terminal. 'pixel' = bitmap via sixel/kitty (best fidelity, no scrollback,
   // not pipe-safe). 'text' = Unicode approximation (pipe-safe, scrollback OK).
   // 'auto' = pixel on an interactive terminal, text when output is piped.
@@ -77,12 +79,19 @@ export interface RenderProfile {
   };
   // Terminal-specific settings
   terminal?: {
-    backend: 'chafa';  // Only chafa supported (supports SVG)
+    backend: 'builtin' | 'chafa';  // Sixel encoder: built-in (sharp) or the external chafa binary
     transparency: {
       enabled: boolean;
       threshold: number;
+      background?: string;  // Colour semi-transparent image edges are blended onto (default: the terminal's, with theme 'auto')
     };
-    pixelsPerColumn: number;
+    pixelsPerColumn: number;  // Cell width fallback when the terminal doesn't report its cell size
+    maxImageRows?: number;  // Height limit for images, diagrams and formulas in rows (unset: the screen height)
+    symbols?: 'half' | 'quadrant' | 'braille';  // Glyphs for images without pixel graphics (default: half)
+    hyperlinks?: boolean;  // Clickable OSC 8 links instead of "text (url)" (default: true)
+    colorTheme?: 'dark' | 'light' | 'solarized' | 'high-contrast';  // Colours for prose, tables and code (default: follows theme)
+    colors?: Record<string, string>;  // Styles per element, e.g. { "heading": "bold blue", "tableBorder": "#888888" }
+    syntaxTheme?: Record<string, string>;  // Code styles per highlight.js scope, e.g. { "keyword": "bold magenta" }
     imageScaling: number;  // Legacy - kept for backward compatibility
     fallbackColumns?: number;  // Fallback width when terminal size can't be detected
   };
@@ -91,6 +100,7 @@ export interface RenderProfile {
     wordWrap?: boolean;
     wrapOnWordBoundary?: boolean;
     widthPercent?: number;  // Percentage of terminal width to use for tables
+    layout?: 'auto' | 'grid' | 'records';  // Rows as "header: value" cards when too wide for a grid (default: auto)
   };
   // PDF-specific settings
   pdf?: {
@@ -111,6 +121,22 @@ export interface MMVConfig {
   profiles: {
     [key: string]: RenderProfile;
   };
+  // On-disk cache of rendered math, diagrams and terminal graphics
+  cache?: {
+    enabled: boolean;
+    maxSizeMB: number;  // Least recently used entries are evicted beyond this
+  };
+  // Downloading http(s) images (off by default; --remote-images turns it on for a run)
+  remoteImages?: {
+    enabled: boolean;
+    maxSizeMB: number;   // Larger downloads are abandoned
+    timeoutMs: number;
+    maxAgeHours?: number;  // Cached downloads are fetched again after this long
+  };
+  // Include directives (<!-- include: file.md -->, ```lang file=...)
+  includes?: {
+    root?: string;  // Only files under this directory can be included (default: the document's directory)
+  };
 }
 
 // Default terminal profile (dark theme)
@@ -149,19 +175,21 @@ const terminalProfile: RenderProfile = {
     alignment: 'center'
   },
   terminal: {
-    backend: 'chafa',
+    backend: 'builtin',
     transparency: {
       enabled: true,
       threshold: 0.95
     },
     pixelsPerColumn: 8,
     imageScaling: 0.75,
-    fallbackColumns: 80
+    fallbackColumns: 80,
+    symbols: 'half'
   },
   tables: {
     wordWrap: true,
     wrapOnWordBoundary: true,
-    widthPercent: 0.95  // Use 95% of terminal width for tables
+    widthPercent: 0.95,  // Use 95% of terminal width for tables
+    layout: 'auto'
   }
 };
 
@@ -325,6 +353,16 @@ const defaultConfig: MMVConfig = {
     pdf: pdfProfile,
     print: printProfile,
     odt: odtProfile
+  },
+  cache: {
+    enabled: true,
+    maxSizeMB: 256
+  },
+  remoteImages: {
+    enabled: false,
+    maxSizeMB: 10,
+    timeoutMs: 10000,
+    maxAgeHours: 24
   }
 };
 
@@ -346,6 +384,39 @@ export async function loadConfig(): Promise<MMVConfig> {
   }
 }
 
+// What changes when a profile with theme 'auto' finds a light background:
+// settings still at their dark defaults take these instead.
+const LIGHT_MATH_COLOR = '#1a1a1a';
+const LIGHT_MERMAID_THEME = 'default';
+
+/**
+ * Resolve a profile's `auto` theme for the terminal's `background`: the
+ * theme becomes `light` or `dark` (dark when the background is unknown), and
+ * on a light background the math colour and Mermaid theme leave their dark
+ * defaults. Semi-transparent image edges are blended onto the background
+ * colour. Other profiles are returned as they are.
+ */
+export function applyTerminalBackground(profile: RenderProfile, background: TerminalBackground | undefined): RenderProfile {
+  if (profile.theme !== 'auto') return profile;
+  const light = background?.scheme === 'light';
+  const resolved: RenderProfile = { ...profile, theme: light ? 'light' : 'dark' };
+
+  if (light && resolved.math?.color === terminalProfile.math!.color) {
+    resolved.math = { ...resolved.math, color: LIGHT_MATH_COLOR };
+  }
+  if (light && resolved.mermaid.theme === terminalProfile.mermaid.theme) {
+    resolved.mermaid = { ...resolved.mermaid, theme: LIGHT_MERMAID_THEME };
+  }
+  const compositeOnto = background?.color ?? (light ? '#ffffff' : undefined);
+  if (resolved.terminal && !resolved.terminal.transparency?.background && compositeOnto) {
+    resolved.terminal = {
+      ...resolved.terminal,
+      transparency: { ...resolved.terminal.transparency, background: compositeOnto }
+    };
+  }
+  return resolved;
+}
+
 export async function loadProfile(profileName?: string): Promise<RenderProfile> {
   const config = await loadConfig();
   const name = profileName || config.defaultProfile;
@@ -398,7 +469,7 @@ async function createDefaultConfig(configDir: string, configFile: string): Promi
         "scale": "none"
       },
       "terminal": {
-        "backend": "chafa",
+        "backend": "builtin",
         "transparency": {
           "enabled": true,
           "threshold": 0.95
@@ -476,6 +547,16 @@ async function createDefaultConfig(configDir: string, configFile: string): Promi
         "dpi": 300
       }
     }
+  },
+  "cache": {
+    "enabled": true,
+    "maxSizeMB": 256
+  },
+  "remoteImages": {
+    "enabled": false,
+    "maxSizeMB": 10,
+    "timeoutMs": 10000,
+    "maxAgeHours": 24
   }
 }`;
     
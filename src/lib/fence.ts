@@ -0,0 +1,122 @@
+/**
+ * Code fence metadata.
+ *
+ * The info string after the opening fence can carry more than the language:
+ *
+ *     ```ts title="server.ts" {3-5,9} showLineNumbers
+ *
+ * gives the block a title, emphasizes lines 3 to 5 and 9, and numbers its
+ * lines. `showLineNumbers=10` starts counting at 10. A `diff` flag, or a
+ * `diff-<lang>` language, treats leading `+` / `-` as added / removed lines
+ * and highlights the rest as the language. The terminal, PDF and ODT
+ * renderers all read the info string through {@link parseFenceInfo}.
+ */
+
+export interface FenceInfo {
+  /** The language to highlight as (without the `diff-` prefix). */
+  language?: string;
+  title?: string;
+  /** Line numbers to emphasize, counted from 1 whatever `startLine` is. */
+  highlight: Set<number>;
+  showLineNumbers: boolean;
+  /** Number of the first line when numbering. */
+  startLine: number;
+  /** Lines start with a `+` / `-` / space marker. */
+  diff: boolean;
+}
+
+export type DiffMarker = '+' | '-' | ' ';
+
+export interface CodeLine {
+  /** The line without its diff marker. */
+  text: string;
+  /** Line number as displayed. */
+  number: number;
+  emphasized: boolean;
+  /** `+` added, `-` removed, ` ` context; undefined outside diff blocks. */
+  marker?: DiffMarker;
+}
+
+// key="quoted value", key='quoted value', key=value, {ranges} or a bare word.
+const META_RE = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|(\S+))|\{([^}]*)\}|(\S+)/g;
+
+/** Parse a fence info string (everything after the opening backticks). */
+export function parseFenceInfo(info: string | undefined): FenceInfo {
+  const fence: FenceInfo = { highlight: new Set(), showLineNumbers: false, startLine: 1, diff: false };
+  let first = true;
+  for (const match of (info ?? '').trim().matchAll(META_RE)) {
+    const [, key, doubleQuoted, singleQuoted, bare, ranges, word] = match;
+    const isFirst = first;
+    first = false;
+    if (key !== undefined) {
+      const value = doubleQuoted ?? singleQuoted ?? bare;
+      switch (key.toLowerCase()) {
+        case 'title':
+        case 'filename':
+          fence.title = value;
+          break;
+        case 'shownumbers':
+        case 'showlinenumbers':
+        case 'linenos': {
+          const start = Number.parseInt(value, 10);
+          fence.showLineNumbers = true;
+          if (Number.isFinite(start)) fence.startLine = start;
+          break;
+        }
+        case 'highlight':
+        case 'hl_lines':
+          addRanges(fence.highlight, value);
+          break;
+      }
+    } else if (ranges !== undefined) {
+      addRanges(fence.highlight, ranges);
+    } else if (word !== undefined) {
+      const flag = word.toLowerCase();
+      if (flag === 'showlinenumbers' || flag === 'linenos' || flag === 'numberlines') {
+        fence.showLineNumbers = true;
+      } else if (flag === 'diff') {
+        fence.diff = true;
+        if (isFirst) continue;
+      } else if (isFirst) {
+        // The first bare word is the language.
+        const diffOf = /^diff-(.+)$/.exec(flag);
+        fence.language = diffOf ? diffOf[1] : flag;
+        fence.diff ||= diffOf !== null;
+      }
+    }
+  }
+  return fence;
+}
+
+/** Whether the info string asks for more than a language. */
+export function hasFenceMetadata(fence: FenceInfo): boolean {
+  return fence.title !== undefined || fence.highlight.size > 0 || fence.showLineNumbers || fence.diff;
+}
+
+/** The lines of a code block with their numbers, emphasis and diff markers. */
+export function codeLines(code: string, fence: FenceInfo): CodeLine[] {
+  return code.replace(/\n$/, '').split('\n').map((line, index) => {
+    const codeLine: CodeLine = {
+      text: line,
+      number: fence.startLine + index,
+      emphasized: fence.highlight.has(index + 1)
+    };
+    if (fence.diff) {
+      const marker = line[0];
+      codeLine.marker = marker === '+' || marker === '-' ? marker : ' ';
+      codeLine.text = marker === '+' || marker === '-' || marker === ' ' ? line.slice(1) : line;
+    }
+    return codeLine;
+  });
+}
+
+// "3-5,9" → 3, 4, 5, 9. Ranges are capped so a typo can't allocate millions.
+function addRanges(lines: Set<number>, spec: string): void {
+  for (const part of spec.split(/[,\s]+/)) {
+    const range = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!range) continue;
+    const from = Number(range[1]);
+    const to = Math.min(Number(range[2] ?? range[1]), from + 10000);
+    for (let line = from; line <= to; line++) lines.add(line);
+  }
+}
@@ -0,0 +1,148 @@
+import { parse } from 'yaml';
+import { displayWidth } from './terminal-text.js';
+import type { TerminalStyles } from './terminal-theme.js';
+
+/**
+ * YAML front matter.
+ *
+ * A `---` block at the very top of a document holds its metadata. It's
+ * parsed once, taken off the markdown (it would otherwise render as a rule
+ * followed by raw YAML) and handed to each output: a header card in the
+ * terminal, the title block, `<title>` and page header of a PDF, and the
+ * pandoc metadata of an ODT.
+ */
+
+export interface FrontMatter {
+  title?: string;
+  description?: string;
+  authors: string[];
+  date?: string;
+  tags: string[];
+  /** Every field as parsed, for outputs that pass metadata through. */
+  data: Record<string, unknown>;
+}
+
+// The opening `---`, the YAML, and a closing `---` or `...` line.
+const FRONT_MATTER_RE = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split `markdown` into its front matter and the rest. A leading `---` block
+ * that isn't a YAML mapping (a thematic break followed by text, say) is left
+ * in the markdown. `lineCount` is the number of lines the block took up.
+ */
+export function parseFrontMatter(markdown: string): { frontMatter?: FrontMatter; body: string; lineCount: number } {
+  const match = FRONT_MATTER_RE.exec(markdown);
+  if (!match) {
+    return { body: markdown, lineCount: 0 };
+  }
+  let data: unknown;
+  try {
+    data = parse(match[1]);
+  } catch {
+    return { body: markdown, lineCount: 0 };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { body: markdown, lineCount: 0 };
+  }
+
+  const fields = data as Record<string, unknown>;
+  const frontMatter: FrontMatter = {
+    title: text(fields.title),
+    description: text(fields.description ?? fields.subtitle),
+    authors: list(fields.author ?? fields.authors),
+    date: text(fields.date),
+    tags: list(fields.tags ?? fields.keywords),
+    data: fields
+  };
+  return {
+    frontMatter,
+    body: markdown.slice(match[0].length),
+    lineCount: match[0].split('\n').length - (match[0].endsWith('\n') ? 1 : 0)
+  };
+}
+
+/** Whether there's anything to show in a title block. */
+export function hasTitleBlock(frontMatter: FrontMatter): boolean {
+  return frontMatter.title !== undefined || frontMatter.description !== undefined ||
+    frontMatter.authors.length > 0 || frontMatter.date !== undefined || frontMatter.tags.length > 0;
+}
+
+/**
+ * The terminal header card: the title, then authors and date, the
+ * description and the tags, in a rounded box at most `columns` wide, styled
+ * by the theme's `card*` elements.
+ */
+export function formatFrontMatterCard(
+  frontMatter: FrontMatter,
+  columns: number,
+  styles: Pick<TerminalStyles, 'cardTitle' | 'cardMeta' | 'cardDescription' | 'cardTags' | 'cardBorder'>
+): string {
+  const inner = Math.max(columns - 4, 10);
+  const lines: { text: string; style: (text: string) => string }[] = [];
+  const add = (content: string | undefined, style: (text: string) => string): void => {
+    if (!content) return;
+    for (const line of wrap(content, inner)) lines.push({ text: line, style });
+  };
+
+  add(frontMatter.title, styles.cardTitle);
+  add([frontMatter.authors.join(', '), frontMatter.date].filter(Boolean).join(' · '), styles.cardMeta);
+  add(frontMatter.description, styles.cardDescription);
+  add(frontMatter.tags.map(tag => `#${tag}`).join(' '), styles.cardTags);
+
+  // As wide as the content needs, no wider (CJK and emoji take two columns).
+  const width = Math.max(...lines.map(line => displayWidth(line.text)));
+  const border = styles.cardBorder;
+  return [
+    border(`╭${'─'.repeat(width + 2)}╮`),
+    ...lines.map(line => `${border('│')} ${line.style(line.text)}${' '.repeat(width - displayWidth(line.text))} ${border('│')}`),
+    border(`╰${'─'.repeat(width + 2)}╯`)
+  ].join('\n');
+}
+
+// A scalar as text; dates and numbers are shown as written.
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') return undefined;
+  const result = String(value).trim();
+  return result || undefined;
+}
+
+// A list field: a YAML sequence, or a comma-separated string. Entries can be
+// mappings with a `name` (`author: [{name: Ada, email: …}]`).
+function list(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [value];
+  return items
+    .map(item => item && typeof item === 'object' ? text((item as Record<string, unknown>).name) : text(item))
+    .filter((item): item is string => item !== undefined);
+}
+
+// Word-wrap `content` to `width` columns, breaking long words.
+function wrap(content: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of content.split(/\s+/)) {
+    for (const piece of breakWord(word, width)) {
+      if (line && displayWidth(line) + 1 + displayWidth(piece) > width) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${piece}` : piece;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// `word` in pieces of at most `width` columns, split between characters.
+function breakWord(word: string, width: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const { segment } of new Intl.Segmenter().segment(word)) {
+    if (piece && displayWidth(piece + segment) > width) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += segment;
+  }
+  if (piece) pieces.push(piece);
+  return pieces;
+}
@@ -2,6 +2,10 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
+import { detectTerminalCapabilities, type CellSize } from './terminal-caps.js';
+import { encodeSixel } from './sixel.js';
+import { renderSymbols, type SymbolStyle } from './symbols.js';
+import { cachedFile } from './cache.js';
 
 const execAsync = promisify(exec);
 
@@ -9,9 +13,13 @@ export async function renderImage(
   imagePath: string, 
   _maxWidth?: number,  // Deprecated - kept for compatibility
   preserveTransparency?: boolean,
-  _backend?: 'chafa',  // Only chafa supported now
+  backend: 'builtin' | 'chafa' = 'builtin',  // Sixel encoder
   alignment?: 'left' | 'center' | 'right',
-  widthPercent?: number
+  widthPercent?: number,
+  pixelsPerColumn?: number,  // Cell width fallback when the terminal doesn't report its cell size
+  maxRows?: number,  // Height limit in rows (default: the visible screen)
+  symbolStyle?: SymbolStyle,  // Glyphs for terminals without pixel graphics
+  background?: string  // Terminal background (#rrggbb) to blend semi-transparent edges onto
 ): Promise<string> {
   try {
     // Resolve the image path
@@ -20,17 +28,25 @@ export async function renderImage(
     // Check if file exists
     await fs.access(resolvedPath);
     
-    // Check for terminal graphics protocol support
-    const terminalType = process.env.TERM_PROGRAM;
+    // Pick the graphics protocol the terminal reported (probed once per run)
+    const { protocol, cellSize } = await detectTerminalCapabilities();
+    const fallbackWidth = pixelsPerColumn || 8;
+    const cell = cellSize ?? { width: fallbackWidth, height: fallbackWidth * 2 };
+    const box = await fitToCells(resolvedPath, widthPercent || 0.75, cell, maxRows);
     
     let result: string;
-    if (terminalType === 'iTerm.app') {
-      result = await renderITermImage(resolvedPath);
-    } else if (terminalType === 'WezTerm' || process.env.KITTY_WINDOW_ID) {
-      result = await renderKittyImage(resolvedPath);
+    if (protocol === 'iterm' && box) {
+      result = await renderITermImage(resolvedPath, box, alignment);
+    } else if (protocol === 'kitty' && box) {
+      result = await renderKittyImage(resolvedPath, box, preserveTransparency, alignment);
+    } else if (box && (backend === 'builtin' || !(await isChafaAvailable()))) {
+      result = protocol === 'sixel'
+        ? await renderBuiltinSixel(resolvedPath, box, alignment, background)
+        : await renderBuiltinSymbols(resolvedPath, box, alignment, symbolStyle);
     } else {
-      // Always use chafa (supports both PNG and SVG)
-      result = await renderChafaSixel(resolvedPath, undefined, preserveTransparency, alignment, widthPercent);
+      // chafa handles both PNG and SVG; without a pixel protocol it draws with symbols
+      result = await renderChafaSixel(resolvedPath, box, preserveTransparency, alignment, widthPercent,
+        protocol === 'symbols' ? 'symbols' : 'sixels', background);
     }
     
     return result;
@@ -41,30 +57,189 @@ export async function renderImage(
   }
 }
 
+/**
+ * Render an image as coloured Unicode characters regardless of what the
+ * terminal supports — the `text` render mode, whose output has to survive
+ * pipes and scrollback. Sized and aligned like the pixel output.
+ */
+export async function renderImageAsText(
+  imagePath: string,
+  alignment?: 'left' | 'center' | 'right',
+  widthPercent?: number,
+  maxRows?: number,
+  symbolStyle?: SymbolStyle
+): Promise<string> {
+  try {
+    const resolvedPath = path.resolve(imagePath);
+    // Text may be viewed anywhere; only the usual 1:2 cell shape matters.
+    const box = await fitToCells(resolvedPath, widthPercent || 0.75, { width: 8, height: 16 }, maxRows);
+    if (!box) throw new Error('unknown image dimensions');
+    return await renderBuiltinSymbols(resolvedPath, box, alignment, symbolStyle);
+  } catch {
+    const filename = path.basename(imagePath);
+    return `\x1b[33m⚠ Warning: Failed to render image ${filename}\x1b[0m`;
+  }
+}
+
+/**
+ * Whether a `renderImage` / `renderImageAsText` result is an image. Neither
+ * throws; on failure they return a "⚠ Warning" message instead.
+ */
+export function isRenderedImage(result: string): boolean {
+  return result.length > 0 && !result.includes('⚠ Warning');
+}
+
+/**
+ * Combine images into one picture, side by side at a common height with a
+ * small gap between them, so a row of images (badges) is drawn as a single
+ * image. Returns the path of the combined PNG.
+ */
+export async function composeImageRow(imagePaths: string[]): Promise<string> {
+  const stats = await Promise.all(imagePaths.map(p => fs.stat(p)));
+  const key = imagePaths.map((p, i) => [path.resolve(p), stats[i].mtimeMs, stats[i].size]);
+  return cachedFile('row', key, async () => {
+    const { default: sharp } = await import('sharp');
+    const sizes = await Promise.all(imagePaths.map(p => sharp(p).metadata()));
+    const height = Math.max(...sizes.map(m => m.height ?? 0));
+    if (height === 0) throw new Error('unknown image dimensions');
+
+    // Scale each image to the row's height; vector images are rasterized at
+    // that size rather than scaled up from 72 dpi.
+    const parts = await Promise.all(imagePaths.map((p, i) => {
+      const { format, height: own = height } = sizes[i];
+      const density = format === 'svg' ? Math.min(2400, Math.ceil(72 * height / own)) : undefined;
+      return sharp(p, density ? { density } : {})
+        .resize({ height })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+    }));
+
+    const gap = Math.max(1, Math.round(height / 4));
+    let left = 0;
+    const placed = parts.map(({ data, info }) => {
+      const part = { input: data, left, top: 0 };
+      left += info.width + gap;
+      return part;
+    });
+    const data = await sharp({
+      create: { width: left - gap, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+    }).composite(placed).png().toBuffer();
+    return { data, extension: 'png' };
+  });
+}
+
+/** Where an image goes on screen, in terminal cells. */
+interface CellBox {
+  columns: number;
+  rows: number;
+  cell: CellSize;
+  /** Pixel size of the source (vector images: at 72 dpi). */
+  sourceWidth: number;
+  sourceHeight: number;
+  format?: string;
+}
+
+// Size an image to `widthPercent` of the terminal width, keeping its aspect
+// ratio in the terminal's real cell geometry, then shrink it if it would be
+// taller than `maxRows`. By default that's the visible screen (less a line for
+// the prompt or the pager's status bar), so a tall image never scrolls its own
+// top off. Returns undefined when the image's dimensions can't be read.
+async function fitToCells(
+  imagePath: string,
+  widthPercent: number,
+  cell: CellSize,
+  maxRows?: number
+): Promise<CellBox | undefined> {
+  let metadata: { width?: number; height?: number; format?: string };
+  try {
+    const { default: sharp } = await import('sharp');
+    metadata = await sharp(imagePath).metadata();
+  } catch {
+    return undefined;
+  }
+  const { width, height } = metadata;
+  if (!width || !height) return undefined;
+
+  const termColumns = process.stdout.columns || 80;
+  const rowLimit = maxRows || (process.stdout.rows ? Math.max(1, process.stdout.rows - 2) : undefined);
+
+  let columns = Math.max(1, Math.floor(termColumns * widthPercent));
+  let rows = Math.max(1, Math.ceil((columns * cell.width * height / width) / cell.height));
+  if (rowLimit && rows > rowLimit) {
+    rows = rowLimit;
+    columns = Math.max(1, Math.floor((rows * cell.height * width / height) / cell.width));
+  }
+  return { columns, rows, cell, sourceWidth: width, sourceHeight: height, format: metadata.format };
+}
+
+async function renderBuiltinSixel(
+  imagePath: string,
+  box: CellBox,
+  alignment?: 'left' | 'center' | 'right',
+  background?: string
+): Promise<string> {
+  // Fill the box's width exactly and keep the aspect ratio; the height then
+  // rounds up to at most box.rows cells.
+  const width = box.columns * box.cell.width;
+  const height = Math.min(box.rows * box.cell.height, Math.round(width * box.sourceHeight / box.sourceWidth));
+  const sixel = await encodeSixel(imagePath, { width, height, density: rasterDensity(box), background });
+  return alignmentIndent(box.columns, alignment) + sixel + '\n';
+}
+
+async function renderBuiltinSymbols(
+  imagePath: string,
+  box: CellBox,
+  alignment?: 'left' | 'center' | 'right',
+  style?: SymbolStyle
+): Promise<string> {
+  // Plain spaces for alignment: this output is meant to survive pipes.
+  const indent = alignmentPadding(box.columns, alignment);
+  return renderSymbols(imagePath, {
+    columns: box.columns, rows: box.rows, style, indent, density: rasterDensity(box)
+  });
+}
+
+let chafaAvailable: Promise<boolean> | undefined;
+
+// chafa stays usable as an optional backend; without it the built-in encoder
+// takes over even when the config asks for chafa.
+function isChafaAvailable(): Promise<boolean> {
+  chafaAvailable ??= execAsync('which chafa').then(() => true, () => false);
+  return chafaAvailable;
+}
+
 async function renderChafaSixel(
   imagePath: string, 
-  _maxWidth?: number,  // Deprecated - not used anymore
+  box: CellBox | undefined,
   preserveTransparency?: boolean,
   alignment?: 'left' | 'center' | 'right',
-  widthPercent?: number
+  widthPercent?: number,
+  format: 'sixels' | 'symbols' = 'sixels',
+  background?: string
 ): Promise<string> {
   try {
     // Use configured alignment (default to center)
     const align = alignment || 'center';
     
-    // Calculate width based on terminal columns and percentage
-    // Default to 75% if not specified (matching your preference)
-    const percentage = widthPercent || 0.75;
-    const termColumns = process.stdout.columns || 80;
-    const targetColumns = Math.floor(termColumns * percentage);
-    
     // Build chafa command
-    let cmd = `chafa --format=sixels --align=${align} --size=${targetColumns}`;
+    let cmd = `chafa --format=${format} --align=${align}`;
+    if (box) {
+      // Fit into the computed cell box, telling chafa the real cell shape
+      cmd += ` --size=${box.columns}x${box.rows} --font-ratio=${box.cell.width}/${box.cell.height}`;
+    } else {
+      // Dimensions unknown: width as a percentage of the terminal, chafa picks the height
+      const termColumns = process.stdout.columns || 80;
+      cmd += ` --size=${Math.floor(termColumns * (widthPercent || 0.75))}`;
+    }
     
     // Only add transparency options for mermaid diagrams
     if (preserveTransparency) {
       cmd += ` --fg-only -t 0.95`;
     }
+    // Blend semi-transparent edges onto the terminal's background
+    if (background) {
+      cmd += ` --bg="${background}"`;
+    }
     
     cmd += ` "${imagePath}"`;
     
@@ -85,21 +260,84 @@ async function renderChafaSixel(
   }
 }
 
-async function renderITermImage(imagePath: string): Promise<string> {
-  // iTerm2 inline images protocol
-  const base64 = await fs.readFile(imagePath, { encoding: 'base64' });
+async function renderITermImage(
+  imagePath: string,
+  box: CellBox,
+  alignment?: 'left' | 'center' | 'right'
+): Promise<string> {
+  // iTerm2 inline images protocol, sized in cells
+  const png = await toPng(imagePath, box);
   const name = Buffer.from(path.basename(imagePath)).toString('base64');
-  return `\x1b]1337;File=name=${name};inline=1:${base64}\x07`;
+  return alignmentIndent(box.columns, alignment) +
+    `\x1b]1337;File=name=${name};size=${png.length};width=${box.columns};height=${box.rows};` +
+    `preserveAspectRatio=1;inline=1:${png.toString('base64')}\x07\n`;
 }
 
-async function renderKittyImage(imagePath: string): Promise<string> {
-  // Kitty graphics protocol
+// PNG bytes for an image: PNG files as-is, anything else converted. Vector
+// input is rasterized at the density that fills its cell box.
+async function toPng(imagePath: string, box: CellBox): Promise<Buffer> {
+  if (box.format === 'png') {
+    return fs.readFile(imagePath);
+  }
+  const { default: sharp } = await import('sharp');
+  const density = rasterDensity(box);
+  return sharp(imagePath, density ? { density } : {}).png().toBuffer();
+}
+
+// The density that rasterizes vector input at the box's pixel width, so it
+// isn't upscaled from the default 72 dpi.
+function rasterDensity(box: CellBox): number | undefined {
+  if (box.format !== 'svg') return undefined;
+  return Math.min(2400, Math.max(72, Math.ceil(72 * box.columns * box.cell.width / box.sourceWidth)));
+}
+
+// Kitty graphics payloads are sent in base64 chunks of at most 4096 bytes.
+const KITTY_CHUNK_SIZE = 4096;
+
+// Image ids are per terminal, not per process; start from a random base so two
+// mmm instances in the same window don't replace each other's images.
+let nextKittyImageId = Math.floor(Math.random() * 0xffffff) + 1;
+
+async function renderKittyImage(
+  imagePath: string,
+  box: CellBox,
+  preserveTransparency?: boolean,
+  alignment?: 'left' | 'center' | 'right'
+): Promise<string> {
+  // Kitty graphics protocol, encoded directly: the image is transmitted as PNG
+  // and placed into its box of terminal cells.
   try {
-    const { stdout } = await execAsync(`kitty +kitten icat "${imagePath}"`);
-    return stdout;
+    const png = await toPng(imagePath, box);
+    const id = nextKittyImageId++;
+    const payload = png.toString('base64');
+    let out = alignmentIndent(box.columns, alignment);
+    for (let offset = 0; offset < payload.length; offset += KITTY_CHUNK_SIZE) {
+      const chunk = payload.slice(offset, offset + KITTY_CHUNK_SIZE);
+      const more = offset + KITTY_CHUNK_SIZE < payload.length ? 1 : 0;
+      // Only the first chunk carries the control keys; q=2 keeps the terminal
+      // from answering (the reply would land in our stdin).
+      const control = offset === 0
+        ? `a=T,f=100,i=${id},p=1,c=${box.columns},r=${box.rows},q=2,m=${more}`
+        : `m=${more}`;
+      out += `\x1b_G${control};${chunk}\x1b\\`;
+    }
+    return out + '\n';
   } catch {
     // Fallback to chafa
-    return renderChafaSixel(imagePath);
+    return renderChafaSixel(imagePath, box, preserveTransparency, alignment);
   }
 }
 
+// Indent an image to its alignment with a cursor move rather than spaces, so
+// the result still starts with an escape sequence like every other graphics
+// format.
+function alignmentIndent(columns: number, alignment?: 'left' | 'center' | 'right'): string {
+  const padding = alignmentPadding(columns, alignment);
+  return padding > 0 ? `\x1b[${padding}C` : '';
+}
+
+// Columns to the left of an image `columns` wide.
+function alignmentPadding(columns: number, alignment: 'left' | 'center' | 'right' = 'center'): number {
+  const free = Math.max(0, (process.stdout.columns || 80) - columns);
+  return alignment === 'left' ? 0 : alignment === 'right' ? free : Math.floor(free / 2);
+}
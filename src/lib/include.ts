@@ -0,0 +1,231 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { loadConfig } from './config.js';
+import { parseFrontMatter } from './front-matter.js';
+
+/**
+ * File includes.
+ *
+ * A comment on a line of its own pulls in another markdown file:
+ *
+ *     <!-- include: ./partials/setup.md -->
+ *
+ * and a fenced block with a `file=` attribute is filled with (part of) a
+ * source file:
+ *
+ *     ```ts file=src/app.ts lines=10-40
+ *     ```
+ *
+ * Paths are relative to the file the directive is in. Included markdown can
+ * include further files; its front matter is dropped, and its relative image
+ * and link targets are rewritten to point at the same files from the top
+ * document's directory, which is where every renderer resolves them. Only
+ * files under the include root (the document's directory, or `includes.root`
+ * in the config) can be included, and a file that ends up including itself
+ * is refused. A directive that can't be followed becomes a
+ * `[Include failed: …]` line in the output.
+ */
+
+export interface IncludeOptions {
+  /** The document's own path, so including it is caught as a cycle. */
+  filePath?: string;
+  /** Called with the absolute path of every file included (or tried). */
+  onDependency?: (filePath: string) => void;
+}
+
+interface IncludeContext {
+  root: string;
+  /** The directory relative targets in the output must be relative to. */
+  topDir: string;
+  /** The chain of files being included, outermost first. */
+  stack: string[];
+  onDependency?: (filePath: string) => void;
+}
+
+const INCLUDE_RE = /^\s{0,3}<!--\s*include:\s*(.+?)\s*-->\s*$/i;
+const FENCE_RE = /^(\s{0,3})(`{3,}|~{3,})(.*)$/;
+// file=path and lines=10-40 in a fence's info string.
+const FILE_ATTR_RE = /(?:^|\s)file=(?:"([^"]*)"|'([^']*)'|(\S+))/;
+const LINES_ATTR_RE = /(?:^|\s)lines=(\d*)(?:-(\d*))?(?=\s|$)/;
+
+/**
+ * `markdown` with its include directives replaced by the files they name.
+ * `baseDir` is the directory the document's relative paths start from.
+ */
+export async function resolveIncludes(
+  markdown: string,
+  baseDir: string,
+  options: IncludeOptions = {}
+): Promise<string> {
+  // Nothing to do for the (usual) document without directives.
+  if (!/<!--\s*include:|file=/i.test(markdown)) {
+    return markdown;
+  }
+  const topDir = path.resolve(baseDir);
+  const context: IncludeContext = {
+    root: await includeRoot(topDir),
+    topDir,
+    stack: options.filePath ? [await realPath(path.resolve(options.filePath))] : [],
+    onDependency: options.onDependency
+  };
+  return expand(markdown, topDir, context);
+}
+
+// The directory includes must stay within.
+async function includeRoot(topDir: string): Promise<string> {
+  const configured = (await loadConfig()).includes?.root;
+  const root = configured
+    ? path.resolve(topDir, configured.replace(/^~(?=$|\/)/, os.homedir()))
+    : topDir;
+  return realPath(root);
+}
+
+async function expand(markdown: string, dir: string, context: IncludeContext): Promise<string> {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      // Code blocks pass through untouched, unless they name a file to show.
+      const [, indent, marker, info] = fence;
+      let end = i + 1;
+      while (end < lines.length && !isClosingFence(lines[end], marker)) end++;
+      const file = FILE_ATTR_RE.exec(info);
+      if (file) {
+        output.push(...await codeExcerpt(indent, marker, info, file[1] ?? file[2] ?? file[3], dir, context));
+      } else {
+        output.push(...lines.slice(i, end + 1));
+      }
+      i = end;
+      continue;
+    }
+
+    const include = INCLUDE_RE.exec(line);
+    if (include) {
+      output.push(await includeMarkdown(include[1], dir, context));
+    } else {
+      output.push(rebaseTargets(line, dir, context.topDir));
+    }
+  }
+  return output.join('\n');
+}
+
+// The contents of an included markdown file, its own includes expanded.
+async function includeMarkdown(spec: string, dir: string, context: IncludeContext): Promise<string> {
+  try {
+    const { target, real } = await resolveTarget(spec, dir, context);
+    if (context.stack.includes(real)) {
+      const chain = [...context.stack, real].map(file => path.relative(context.root, file) || file);
+      throw new Error(`includes itself: ${chain.join(' → ')}`);
+    }
+    // An included file's own front matter describes that file, not this one.
+    const { body } = parseFrontMatter(await fs.readFile(real, 'utf-8'));
+    return await expand(body.replace(/\n$/, ''), path.dirname(target), {
+      ...context,
+      stack: [...context.stack, real]
+    });
+  } catch (error) {
+    return failure(spec, error);
+  }
+}
+
+// A fenced block filled with the lines of a source file. The `file=` and
+// `lines=` attributes are dropped from the info string; a bare
+// `showLineNumbers` counts from the first line shown.
+async function codeExcerpt(
+  indent: string,
+  marker: string,
+  info: string,
+  spec: string,
+  dir: string,
+  context: IncludeContext
+): Promise<string[]> {
+  let code: string[];
+  let first: number;
+  try {
+    const { real } = await resolveTarget(spec, dir, context);
+    const source = (await fs.readFile(real, 'utf-8')).replace(/\n$/, '').split('\n');
+    const range = LINES_ATTR_RE.exec(info);
+    first = Math.max(Number(range?.[1] || 1), 1);
+    const last = range?.[2] === undefined ? (range ? first : source.length) : Number(range[2] || source.length);
+    if (first > source.length) {
+      throw new Error(`starts past the end (${source.length} lines)`);
+    }
+    code = source.slice(first - 1, last);
+  } catch (error) {
+    return [failure(spec, error)];
+  }
+
+  let rest = info.replace(FILE_ATTR_RE, '').replace(LINES_ATTR_RE, '').trim();
+  if (first > 1) {
+    rest = rest.replace(/(^|\s)(showLineNumbers|linenos)(?=\s|$)/i, `$1$2=${first}`);
+  }
+  // A fence longer than any run of the same character in the code.
+  const runs = code.join('\n').match(new RegExp(`\\${marker[0]}{3,}`, 'g')) ?? [];
+  const fence = marker[0].repeat(Math.max(marker.length, ...runs.map(run => run.length + 1)));
+  return [`${indent}${fence}${rest}`, ...code, `${indent}${fence}`];
+}
+
+// The path of an include target, and its real path (symlinks followed),
+// checked to be inside the include root.
+async function resolveTarget(
+  spec: string,
+  dir: string,
+  context: IncludeContext
+): Promise<{ target: string; real: string }> {
+  const target = path.resolve(dir, spec.replace(/^<(.*)>$/, '$1'));
+  context.onDependency?.(target);
+  let real: string;
+  try {
+    real = await fs.realpath(target);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new Error(code === 'ENOENT' ? 'no such file' : (error as Error).message);
+  }
+  const relative = path.relative(context.root, real);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`outside ${context.root}`);
+  }
+  return { target, real };
+}
+
+async function realPath(file: string): Promise<string> {
+  try {
+    return await fs.realpath(file);
+  } catch {
+    return file;
+  }
+}
+
+function failure(spec: string, error: unknown): string {
+  return `[Include failed: ${spec} (${error instanceof Error ? error.message : String(error)})]`;
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const close = /^\s{0,3}(`{3,}|~{3,})\s*$/.exec(line);
+  return close !== null && close[1][0] === marker[0] && close[1].length >= marker.length;
+}
+
+// Relative targets of links, images (`](src`), reference definitions and
+// <img>/<source> tags in a line of `fromDir`, rewritten relative to `toDir`.
+function rebaseTargets(line: string, fromDir: string, toDir: string): string {
+  if (fromDir === toDir) return line;
+  const rebase = (target: string): string => {
+    if (!target || target.startsWith('#') || path.isAbsolute(target) || /^[a-z][a-z0-9+.-]*:/i.test(target)) {
+      return target;
+    }
+    const [, file, suffix] = /^([^#?]*)(.*)$/.exec(target)!;
+    return path.relative(toDir, path.resolve(fromDir, file)).split(path.sep).join('/') + suffix;
+  };
+  return line
+    .replace(/(\]\(\s*)(<[^>]+>|[^\s)]+)/g, (_match, open: string, target: string) =>
+      open + (target.startsWith('<') ? `<${rebase(target.slice(1, -1))}>` : rebase(target)))
+    .replace(/^(\s{0,3}\[[^\]]+\]:\s*)(<[^>]+>|\S+)/, (_match, open: string, target: string) =>
+      open + (target.startsWith('<') ? `<${rebase(target.slice(1, -1))}>` : rebase(target)))
+    .replace(/(<(?:img|source)\b[^>]*?\s(?:src|srcset)\s*=\s*)(["'])([^"']*)\2/gi,
+      (_match, open: string, quote: string, value: string) =>
+        open + quote + value.split(',').map(candidate => candidate.replace(/^(\s*)(\S+)/,
+          (_m, space: string, url: string) => space + rebase(url))).join(',') + quote);
+}
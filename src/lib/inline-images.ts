@@ -0,0 +1,274 @@
+import type { Token, Tokens } from 'marked';
+
+/**
+ * Images found in the markdown token stream.
+ *
+ * The terminal can't draw a picture in the middle of a line of prose, so the
+ * renderer leaves images out of the text and shows them after the block they
+ * appear in. Images that sit next to each other on one line (a row of badges)
+ * are kept together and drawn side by side.
+ *
+ * Besides markdown images this understands the HTML READMEs use for them:
+ * `<img>` with `width`/`height`, `<picture>` with `prefers-color-scheme`
+ * sources, and `<a>` around either. Markdown images take sizes from a
+ * pandoc-style suffix, `![alt](src){width=50%}`.
+ */
+
+export type Theme = 'dark' | 'light';
+
+/** A requested image dimension: CSS pixels, or a percentage of the screen. */
+export interface ImageSize {
+  value: number;
+  unit: 'px' | '%';
+}
+
+export interface InlineImage {
+  src: string;
+  alt: string;
+  title?: string;
+  /** Where the image links to, for `[![alt](src)](href)`. */
+  href?: string;
+  width?: ImageSize;
+  height?: ImageSize;
+}
+
+// HTML that holds images: <picture> blocks, <img> tags, and the <a> around
+// them; line breaks and block tags split images into separate rows.
+const HTML_IMAGE_RE = /<picture\b[^>]*>([\s\S]*?)<\/picture\s*>|<img\b[^>]*>|<a\b[^>]*>|<\/a\s*>|<br\b[^>]*>|<\/?(?:p|div|center|h[1-6]|table|tr|td|li)\b[^>]*>|\n[ \t]*\n/gi;
+
+// Tags left around images once they're taken out of the HTML.
+const WRAPPER_TAGS_RE = /<\/?(?:p|div|center|a|br|span|picture|source)\b[^>]*>/gi;
+
+// GitHub's convention for theme-specific images, a fragment on the source.
+const THEME_ONLY_RE = /#gh-(dark|light)-mode-only$/;
+
+// A pandoc attribute block right after an image: {width=50% height=120px}.
+const ATTRIBUTE_SUFFIX_RE = /^\{([^}]*)\}/;
+
+/**
+ * The images in a block token (paragraph, list, blockquote, table...), in
+ * order, grouped into rows: images separated only by spaces on one line form
+ * a row; anything else in between starts a new one. `<picture>` picks the
+ * source for `theme`, and images marked `#gh-dark-mode-only` or
+ * `#gh-light-mode-only` are skipped in the other theme.
+ *
+ * An attribute suffix after a markdown image is taken off the text that
+ * follows it, so it doesn't show up in the rendered paragraph.
+ */
+export function findImageRows(token: Token, theme: Theme = 'dark'): InlineImage[][] {
+  const rows: InlineImage[][] = [];
+  let row: InlineImage[] = [];
+  // The <a href> an inline <img> is in, across the paragraph's html tokens.
+  let anchor: string | undefined;
+  const endRow = (): void => {
+    if (row.length > 0) rows.push(row);
+    row = [];
+  };
+  const add = (image: InlineImage): void => {
+    const only = THEME_ONLY_RE.exec(image.src);
+    if (!only) row.push(image);
+    else if (only[1] === theme) row.push({ ...image, src: image.src.slice(0, only.index) });
+  };
+
+  const visit = (tokens: Token[]): void => {
+    let previous: InlineImage | undefined;
+    for (const t of tokens) {
+      const last = previous;
+      previous = undefined;
+      if (last && t.type === 'text') {
+        takeAttributes(t as Tokens.Text, last);
+      }
+
+      if (t.type === 'image') {
+        previous = imageOf(t as Tokens.Image);
+        add(previous);
+      } else if (t.type === 'link' && isLinkedImage(t as Tokens.Link)) {
+        const link = t as Tokens.Link;
+        for (const child of link.tokens) {
+          if (child.type === 'image') add({ ...imageOf(child as Tokens.Image), href: link.href });
+        }
+      } else if (t.type === 'html') {
+        for (const part of scanHtml(t.text, theme, anchor)) {
+          if (part.kind === 'image') add(part.image);
+          else if (part.kind === 'anchor') anchor = part.href;
+          else endRow();
+        }
+      } else if (isSpace(t)) {
+        // Spaces between images keep them on the same row.
+      } else {
+        endRow();
+        for (const children of childTokens(t)) {
+          visit(children);
+          endRow();
+        }
+      }
+    }
+  };
+
+  visit([token]);
+  endRow();
+  return rows;
+}
+
+/**
+ * Whether a paragraph or HTML block holds nothing but images (and links and
+ * wrappers around them), so there's no text to show besides the images.
+ */
+export function isImageOnly(token: Token): boolean {
+  if (token.type === 'html') {
+    return hasHtmlImage(token.text) && isHtmlImageOnly(token.text);
+  }
+  if (token.type !== 'paragraph') return false;
+  const children = (token as Tokens.Paragraph).tokens;
+  return children.some(t => t.type === 'image' || (t.type === 'link' && isLinkedImage(t as Tokens.Link)) ||
+      (t.type === 'html' && hasHtmlImage(t.text))) &&
+    children.every(t => t.type === 'image' || isSpace(t) || (t.type === 'link' && isLinkedImage(t as Tokens.Link)) ||
+      (t.type === 'html' && isHtmlImageOnly(t.text)));
+}
+
+/** HTML with its `<img>` and `<picture>` elements (and links left empty by that) removed. */
+export function removeHtmlImages(html: string): string {
+  return html
+    .replace(/<picture\b[^>]*>[\s\S]*?<\/picture\s*>|<img\b[^>]*>/gi, '')
+    .replace(/<a\b[^>]*>\s*<\/a\s*>/gi, '');
+}
+
+/**
+ * Parse a size attribute: `400`, `400px` or `50%`. Anything else (`auto`,
+ * em units) is ignored.
+ */
+export function parseSize(value: string | undefined): ImageSize | undefined {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(px|%)?\s*$/i.exec(value ?? '');
+  if (!match || Number(match[1]) <= 0) return undefined;
+  return { value: Number(match[1]), unit: match[2] === '%' ? '%' : 'px' };
+}
+
+/** Whether a link wraps only images, like a badge: `[![build](badge.svg)](ci-url)`. */
+export function isLinkedImage(link: Tokens.Link): boolean {
+  return link.tokens.some(t => t.type === 'image') && link.tokens.every(t => t.type === 'image' || isSpace(t));
+}
+
+function imageOf(token: Tokens.Image): InlineImage {
+  return { src: token.href, alt: token.text, title: token.title || undefined };
+}
+
+// Move a `{width=… height=…}` suffix from the start of `text` onto `image`.
+function takeAttributes(text: Tokens.Text, image: InlineImage): void {
+  const match = ATTRIBUTE_SUFFIX_RE.exec(text.text);
+  if (!match) return;
+  const attributes = parseAttributes(match[1]);
+  image.width = parseSize(attributes.width);
+  image.height = parseSize(attributes.height);
+  text.text = text.text.slice(match[0].length);
+  text.raw = text.raw.replace(ATTRIBUTE_SUFFIX_RE, '');
+}
+
+type HtmlPart =
+  | { kind: 'image'; image: InlineImage }
+  | { kind: 'anchor'; href: string | undefined }
+  | { kind: 'break' };
+
+// The images, links and row breaks in a piece of HTML, in order. `anchor` is
+// the link already open where the HTML starts.
+function scanHtml(html: string, theme: Theme, anchor: string | undefined): HtmlPart[] {
+  const parts: HtmlPart[] = [];
+  for (const match of html.matchAll(HTML_IMAGE_RE)) {
+    const tag = match[0];
+    let image: InlineImage | undefined;
+    if (match[1] !== undefined) {
+      image = pictureImage(match[1], theme);
+    } else if (/^<img\b/i.test(tag)) {
+      image = imgImage(tag);
+    } else if (/^<a\b/i.test(tag)) {
+      anchor = parseAttributes(tag).href;
+      parts.push({ kind: 'anchor', href: anchor });
+      continue;
+    } else if (/^<\/a/i.test(tag)) {
+      anchor = undefined;
+      parts.push({ kind: 'anchor', href: undefined });
+      continue;
+    } else {
+      parts.push({ kind: 'break' });
+      continue;
+    }
+    if (image) parts.push({ kind: 'image', image: { ...image, href: anchor } });
+  }
+  return parts;
+}
+
+// <img src alt title width height>
+function imgImage(tag: string): InlineImage | undefined {
+  const attributes = parseAttributes(tag);
+  if (!attributes.src) return undefined;
+  return {
+    src: attributes.src,
+    alt: attributes.alt ?? '',
+    title: attributes.title || undefined,
+    width: parseSize(attributes.width),
+    height: parseSize(attributes.height)
+  };
+}
+
+// A <picture>: the <source> whose media query matches the theme, sized and
+// described by the fallback <img>.
+function pictureImage(body: string, theme: Theme): InlineImage | undefined {
+  const img = /<img\b[^>]*>/i.exec(body);
+  const fallback = img ? imgImage(img[0]) : undefined;
+  for (const source of body.match(/<source\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(source);
+    const scheme = /prefers-color-scheme\s*:\s*(dark|light)/i.exec(attributes.media ?? '');
+    const src = attributes.srcset?.split(',')[0].trim().split(/\s+/)[0];
+    if (scheme && scheme[1].toLowerCase() === theme && src) {
+      return { alt: '', ...fallback, src };
+    }
+  }
+  return fallback;
+}
+
+// The attributes of an HTML tag (or a pandoc attribute block), with entities
+// in their values decoded. Names are lower-cased.
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<[\w-]+/, '').replace(/\/?>$/, '');
+  for (const match of body.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function hasHtmlImage(html: string): boolean {
+  return /<img\b|<picture\b/i.test(html);
+}
+
+// Whether nothing but wrappers and whitespace is left once the images are out.
+function isHtmlImageOnly(html: string): boolean {
+  return !removeHtmlImages(html).replace(WRAPPER_TAGS_RE, '').replace(/<!--[\s\S]*?-->/g, '').trim();
+}
+
+// Blank text within a line; a line break ends a row.
+function isSpace(token: Token): boolean {
+  return token.type === 'text' && /^[ \t]*$/.test(token.raw);
+}
+
+// The nested token lists of a block or inline token.
+function childTokens(token: Token): Token[][] {
+  switch (token.type) {
+    case 'list':
+      return (token as Tokens.List).items.map(item => item.tokens);
+    case 'table': {
+      const table = token as Tokens.Table;
+      return [...table.header, ...table.rows.flat()].map(cell => cell.tokens);
+    }
+    default:
+      return 'tokens' in token && Array.isArray(token.tokens) ? [token.tokens] : [];
+  }
+}
@@ -0,0 +1,114 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Terminal hyperlinks (OSC 8).
+ *
+ * Links are written as `ESC ] 8 ; ; URL ST text ESC ] 8 ; ; ST`: terminals
+ * that support it make the text clickable, others show just the text. Local
+ * targets are resolved to absolute `file://` URLs against the document, so
+ * they work from any working directory and the pager can follow them.
+ */
+
+const ST = '\x1b\\';
+
+// An OSC 8 opener with a non-empty URL; the closer has an empty one.
+const HYPERLINK_RE = /\x1b\]8;[^;\x07\x1b]*;([^\x07\x1b]+)(?:\x07|\x1b\\)/g;
+const HYPERLINK_END_RE = /\x1b\]8;[^;\x07\x1b]*;(?:\x07|\x1b\\)/;
+
+export interface LinkContext {
+  /** Directory relative links resolve against. */
+  baseDir: string;
+  /** The document itself, for `#anchor` links (unknown for stdin). */
+  filePath?: string;
+}
+
+// Stand-ins for the OSC 8 sequences while marked-terminal lays out the text:
+// its reflow counts every escape sequence other than SGR colours as visible
+// characters, and a URL-length "word" would wrap the line early.
+const LINK_START = '\uE000';
+const LINK_END = '\uE001';
+const PLACEHOLDER_RE = /[\uE000\uE001]/g;
+
+/**
+ * Hyperlinks written during markdown parsing. `mark` returns the link text
+ * between one-character placeholders and remembers the URL; `restore` swaps
+ * the placeholders in the parsed output for the real escape sequences, in
+ * order.
+ */
+export class HyperlinkCollector {
+  private readonly urls: string[] = [];
+
+  mark(url: string, text: string): string {
+    this.urls.push(url);
+    return `${LINK_START}${text}${LINK_END}`;
+  }
+
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_RE, mark =>
+      mark === LINK_START ? `\x1b]8;;${this.urls.shift() ?? ''}${ST}` : `\x1b]8;;${ST}`
+    );
+  }
+
+  /**
+   * Like {@link restore}, for text that was only just parsed (a table cell
+   * laid out on its own): its links are the ones marked last, and `restore`
+   * won't see them again. Text that gets repeated or reordered can't keep
+   * placeholders, which are matched to URLs by position.
+   */
+  restoreLatest(text: string): string {
+    const count = text.split(LINK_START).length - 1;
+    const urls = count > 0 ? this.urls.splice(-count) : [];
+    return text.replace(PLACEHOLDER_RE, mark =>
+      mark === LINK_START ? `\x1b]8;;${urls.shift() ?? ''}${ST}` : `\x1b]8;;${ST}`
+    );
+  }
+}
+
+/** `text` as a hyperlink to `url`. */
+export function hyperlink(url: string, text: string): string {
+  return `\x1b]8;;${url}${ST}${text}\x1b]8;;${ST}`;
+}
+
+/**
+ * The URL a markdown link points at: URLs with a scheme are kept, `#anchor`
+ * refers to the current document, and anything else is a path relative to
+ * the document's directory.
+ */
+export function resolveHref(href: string, context: LinkContext): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(href)) return href;
+  if (href.startsWith('//')) return `https:${href}`;
+  if (href.startsWith('#')) {
+    return context.filePath ? pathToFileURL(path.resolve(context.filePath)).href + href : href;
+  }
+
+  const hashAt = href.indexOf('#');
+  const target = hashAt < 0 ? href : href.slice(0, hashAt);
+  const fragment = hashAt < 0 ? '' : href.slice(hashAt);
+  let decoded = target;
+  try {
+    decoded = decodeURI(target);
+  } catch {
+    // Not percent-encoded after all; use it as written.
+  }
+  return pathToFileURL(path.resolve(context.baseDir, decoded)).href + fragment;
+}
+
+/** The URLs of the hyperlinks that start in `text`, in order. */
+export function findHyperlinks(text: string): string[] {
+  return Array.from(text.matchAll(HYPERLINK_RE), m => m[1]);
+}
+
+/**
+ * `text` with its `index`-th hyperlink shown in reverse video (the pager's
+ * selected link). A link that continues on the next line is highlighted up
+ * to the end of this one.
+ */
+export function highlightHyperlink(text: string, index: number): string {
+  const opener = Array.from(text.matchAll(HYPERLINK_RE))[index];
+  if (opener?.index === undefined) return text;
+  const start = opener.index + opener[0].length;
+  const closer = text.slice(start).search(HYPERLINK_END_RE);
+  const end = closer < 0 ? text.length : start + closer;
+  return `${text.slice(0, start)}\x1b[7m${text.slice(start, end)}\x1b[27m${text.slice(end)}`;
+}
@@ -0,0 +1,199 @@
+import chalk from 'chalk';
+import markedFootnote from 'marked-footnote';
+import { markedEmoji } from 'marked-emoji';
+import * as nodeEmoji from 'node-emoji';
+import type { MarkedExtension, TokenizerAndRendererExtension } from 'marked';
+import { subscriptText, superscriptText } from './math.js';
+
+/**
+ * Markdown beyond GFM, shared by the terminal and PDF renderers: footnotes
+ * (`[^1]`), subscript (`H~2~O`), superscript (`x^2^`), highlight
+ * (`==key==`) and emoji shortcodes (`:rocket:`). The syntax is the same
+ * everywhere; each output supplies how it looks.
+ *
+ * The PDF parses the whole document at once and uses marked-footnote. The
+ * terminal renders its prose in pieces (between diagrams, formulas and
+ * images), so it collects the footnote definitions from the source first
+ * with {@link extractFootnotes} and lists them at the end.
+ */
+
+/** How an output draws the inline extensions. */
+export interface InlineStyles {
+  subscript(text: string): string;
+  superscript(text: string): string;
+  highlight(text: string): string;
+}
+
+export const htmlInlineStyles: InlineStyles = {
+  subscript: text => `<sub>${escapeHtml(text)}</sub>`,
+  superscript: text => `<sup>${escapeHtml(text)}</sup>`,
+  highlight: text => `<mark>${escapeHtml(text)}</mark>`
+};
+
+/** Unicode script characters, and reverse video for highlights. */
+export const terminalInlineStyles: InlineStyles = {
+  subscript: subscriptText,
+  superscript: superscriptText,
+  highlight: text => chalk.inverse(text)
+};
+
+// GitHub/Slack-compatible shortcodes from node-emoji
+const emojiMap: { [key: string]: string } = {};
+for (const { name, emoji } of nodeEmoji.search('')) {
+  emojiMap[name] = emoji;
+}
+emojiMap['+1'] = '👍';
+emojiMap['-1'] = '👎';
+
+/** Emoji shortcodes (`:rocket:` → 🚀). */
+export function emojiExtension(): MarkedExtension {
+  return markedEmoji({ emojis: emojiMap, renderer: (token) => token.emoji });
+}
+
+/** Footnotes for a document parsed in one go: references and a notes section. */
+export function footnoteExtension(): MarkedExtension {
+  return markedFootnote();
+}
+
+/** Subscript (`~text~`), superscript (`^text^`) and highlight (`==text==`). */
+export function inlineStylesExtension(styles: InlineStyles): MarkedExtension {
+  const subscript: TokenizerAndRendererExtension = {
+    name: 'subscript',
+    level: 'inline',
+    start(src: string) { return src.match(/~(?!~)/)?.index; },
+    tokenizer(src: string) {
+      const match = src.match(/^~([^~\s]+)~/);
+      if (match) return { type: 'subscript', raw: match[0], text: match[1] };
+      return undefined;
+    },
+    renderer(token) { return styles.subscript(token.text); }
+  };
+
+  const superscript: TokenizerAndRendererExtension = {
+    name: 'superscript',
+    level: 'inline',
+    start(src: string) { return src.match(/\^(?!\^)/)?.index; },
+    tokenizer(src: string) {
+      const match = src.match(/^\^([^\^\s]+)\^/);
+      if (match) return { type: 'superscript', raw: match[0], text: match[1] };
+      return undefined;
+    },
+    renderer(token) { return styles.superscript(token.text); }
+  };
+
+  const highlight: TokenizerAndRendererExtension = {
+    name: 'highlight',
+    level: 'inline',
+    start(src: string) { return src.match(/==/)?.index; },
+    tokenizer(src: string) {
+      const match = src.match(/^==([^=]+)==/);
+      if (match) return { type: 'highlight', raw: match[0], text: match[1] };
+      return undefined;
+    },
+    renderer(token) { return styles.highlight(token.text); }
+  };
+
+  return { extensions: [subscript, superscript, highlight] };
+}
+
+/** Footnotes taken out of a document, numbered in order of first reference. */
+export interface Footnotes {
+  /** Number of each referenced label. */
+  numbers: Map<string, number>;
+  /** The markdown of each note, note 1 first. */
+  notes: string[];
+}
+
+const DEFINITION_RE = /^ {0,3}\[\^([^\]\n]+)\]:[ \t]*(.*)$/;
+const REFERENCE_RE = /\[\^([^\]\n]+)\](?!:)/g;
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Take the footnote definitions (`[^label]: text`, with continuation lines
+ * indented four spaces) out of `markdown`, and number the labels referenced
+ * in what's left. Definitions nothing refers to are dropped; references
+ * without a definition stay as written.
+ */
+export function extractFootnotes(markdown: string): { body: string; footnotes: Footnotes } {
+  const definitions = new Map<string, string[]>();
+  const body: string[] = [];
+  const lines = markdown.split('\n');
+  let fence: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const marker = FENCE_RE.exec(line)?.[1];
+    if (marker && (fence === undefined || (marker[0] === fence[0] && marker.length >= fence.length))) {
+      fence = fence === undefined ? marker : undefined;
+    }
+    const definition = fence === undefined ? DEFINITION_RE.exec(line) : null;
+    if (!definition) {
+      body.push(line);
+      continue;
+    }
+    // Continuation: indented lines, and blank lines followed by one.
+    const text = [definition[2]];
+    while (i + 1 < lines.length) {
+      const next = lines[i + 1];
+      if (/^(?: {4}|\t)/.test(next)) {
+        text.push(next.replace(/^(?: {4}|\t)/, ''));
+      } else if (!next.trim() && /^(?: {4}|\t)/.test(lines[i + 2] ?? '')) {
+        text.push('');
+      } else {
+        break;
+      }
+      i++;
+    }
+    if (!definitions.has(definition[1])) definitions.set(definition[1], text);
+  }
+
+  const footnotes: Footnotes = { numbers: new Map(), notes: [] };
+  fence = undefined;
+  for (const line of body) {
+    const marker = FENCE_RE.exec(line)?.[1];
+    if (marker && (fence === undefined || (marker[0] === fence[0] && marker.length >= fence.length))) {
+      fence = fence === undefined ? marker : undefined;
+      continue;
+    }
+    if (fence !== undefined) continue;
+    for (const [, label] of line.replace(/`[^`]*`/g, '').matchAll(REFERENCE_RE)) {
+      const text = definitions.get(label);
+      if (text && !footnotes.numbers.has(label)) {
+        footnotes.numbers.set(label, footnotes.notes.length + 1);
+        footnotes.notes.push(text.join('\n'));
+      }
+    }
+  }
+  return { body: body.join('\n'), footnotes };
+}
+
+/**
+ * Footnote references (`[^label]`) for labels in `numbers`, drawn by `render`.
+ * The map is read at parse time, so the caller can refill it per document.
+ */
+export function footnoteReferenceExtension(
+  numbers: Map<string, number>,
+  render: (number: number) => string
+): MarkedExtension {
+  const reference: TokenizerAndRendererExtension = {
+    name: 'footnoteReference',
+    level: 'inline',
+    start(src: string) { return src.match(/\[\^/)?.index; },
+    tokenizer(src: string) {
+      const match = src.match(/^\[\^([^\]\n]+)\]/);
+      const number = match ? numbers.get(match[1]) : undefined;
+      if (match && number !== undefined) return { type: 'footnoteReference', raw: match[0], number };
+      return undefined;
+    },
+    renderer(token) { return render(token.number); }
+  };
+  return { extensions: [reference] };
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,4 +1,5 @@
 import katex from 'katex';
+import { cachedText } from './cache.js';
 
 /**
  * Server-side math rendering shared across MMM's output backends.
@@ -189,6 +190,16 @@ function toScript(text: string, table: Record<string, string>): string | null {
   return out;
 }
 
+/** `text` in superscript glyphs, or `^(text)` when a character has none. */
+export function superscriptText(text: string): string {
+  return toScript(text, SUPERSCRIPT) ?? `^(${text})`;
+}
+
+/** `text` in subscript glyphs, or `_(text)` when a character has none. */
+export function subscriptText(text: string): string {
+  return toScript(text, SUBSCRIPT) ?? `_(${text})`;
+}
+
 // Resolve a `\command` to its glyph (Greek / symbol), or its bare name.
 function commandGlyph(name: string): string {
   return GREEK_TO_UNICODE[name] ?? SYMBOL_TO_UNICODE[name] ?? name;
@@ -219,8 +230,8 @@ export function latexToUnicode(latex: string): string {
 
   // Superscripts / subscripts first, so e.g. `x^2` inside a \frac argument
   // collapses to a brace-free `x²` that the \frac pass below can then match.
-  const sup = (g: string): string => toScript(g, SUPERSCRIPT) ?? `^(${g})`;
-  const sub = (g: string): string => toScript(g, SUBSCRIPT) ?? `_(${g})`;
+  const sup = superscriptText;
+  const sub = subscriptText;
   s = s.replace(/\^\\([A-Za-z]+)/g, (_m, name: string) => `^${commandGlyph(name)}`);
   s = s.replace(/_\\([A-Za-z]+)/g, (_m, name: string) => `_${commandGlyph(name)}`);
   s = s.replace(/\^\{([^{}]*)\}/g, (_m, g) => sup(String(g)));
@@ -367,13 +378,16 @@ export async function renderMathToSvg(
   latex: string,
   opts: { displayMode: boolean; color?: string; background?: string },
 ): Promise<string | null> {
-  try {
-    const texToSvg = await loadTexToSvg();
-    const svg = texToSvg(latex, opts.displayMode);
-    if (!svg.startsWith('<svg')) return null;
-    if (opts.color || opts.background) return styleSvg(svg, opts.color ?? 'currentColor', opts.background);
-    return svg;
-  } catch {
-    return null;
-  }
+  // Cached on disk: a hit skips loading MathJax altogether.
+  return cachedText('math', [latex.trim(), opts.displayMode, opts.color, opts.background], async () => {
+    try {
+      const texToSvg = await loadTexToSvg();
+      const svg = texToSvg(latex, opts.displayMode);
+      if (!svg.startsWith('<svg')) return null;
+      if (opts.color || opts.background) return styleSvg(svg, opts.color ?? 'currentColor', opts.background);
+      return svg;
+    } catch {
+      return null;
+    }
+  });
 }
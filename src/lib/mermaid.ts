@@ -4,6 +4,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
 import { renderMermaidCore } from './mermaid-core.js';
+import { cachedText, cachedBuffer } from './cache.js';
 
 const execAsync = promisify(exec);
 
@@ -28,6 +29,61 @@ async function checkMmdcAvailable(): Promise<boolean> {
   return mmdcAvailable;
 }
 
+/**
+ * Replace CSS custom properties (`var(--fg)`) and `color-mix(in srgb, …)` in a
+ * beautiful-mermaid SVG with literal colours. Browsers evaluate these, but
+ * librsvg doesn't and paints every such fill and stroke black.
+ */
+function resolveCssVariables(svg: string): string {
+  const vars = new Map<string, string>();
+  for (const match of svg.matchAll(/(--[\w-]+)\s*:\s*([^;"]+)/g)) {
+    if (!vars.has(match[1])) vars.set(match[1], match[2].trim());
+  }
+
+  // Resolve innermost calls first until none are left; the bound guards
+  // against self-referencing variables.
+  let out = svg;
+  for (let pass = 0; pass < 32 && /(?:var|color-mix)\(/.test(out); pass++) {
+    out = out.replace(/(var|color-mix)\(([^()]*)\)/g, (_m, fn: string, args: string) => {
+      if (fn === 'var') {
+        const comma = args.indexOf(',');
+        const name = (comma < 0 ? args : args.slice(0, comma)).trim();
+        return vars.get(name) ?? (comma < 0 ? 'none' : args.slice(comma + 1).trim());
+      }
+      return mixColors(args);
+    });
+  }
+  return out;
+}
+
+// `in srgb, #aaa 40%, #bbb` → the mixed colour as hex.
+function mixColors(args: string): string {
+  const match = /^\s*in srgb\s*,\s*(#[0-9a-f]{3,6})\s+([\d.]+)%\s*,\s*(#[0-9a-f]{3,6})\s*$/i.exec(args);
+  if (!match) return args.split(',')[1]?.trim().split(/\s+/)[0] ?? 'none';
+  const a = parseHexColor(match[1]);
+  const b = parseHexColor(match[3]);
+  const weight = Number(match[2]) / 100;
+  return '#' + a.map((channel, i) =>
+    Math.round(channel * weight + b[i] * (1 - weight)).toString(16).padStart(2, '0')
+  ).join('');
+}
+
+function parseHexColor(hex: string): number[] {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16));
+}
+
+/**
+ * Render with the built-in renderer (beautiful-mermaid), through the on-disk
+ * cache. Returns null when the diagram type isn't supported.
+ */
+function renderCoreSvg(mermaidCode: string): Promise<string | null> {
+  return cachedText('mermaid', ['core', mermaidCode], async () =>
+    renderMermaidCore(mermaidCode, 'svg')?.svg ?? null
+  );
+}
+
 /**
  * Create a placeholder SVG image with installation instructions
  */
@@ -61,6 +117,14 @@ async function createPlaceholderImage(
   return outputFile;
 }
 
+// A name for a render's temp files. Diagrams render concurrently and the
+// caller deletes the result when done, so two renders of the same diagram
+// mustn't share files: the content hash gets a random suffix.
+function tempId(mermaidCode: string): string {
+  const hash = crypto.createHash('md5').update(mermaidCode).digest('hex').substring(0, 8);
+  return `${hash}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
 /**
  * Render a mermaid diagram using mmdc (mermaid-cli).
  * Returns the path to the rendered file.
@@ -70,10 +134,10 @@ async function renderWithMmdc(
   outputFile: string,
   options?: MermaidRenderOptions
 ): Promise<string> {
-  const hash = crypto.createHash('md5').update(mermaidCode).digest('hex').substring(0, 8);
+  const id = tempId(mermaidCode);
   const tmpDir = '/tmp';
-  const mermaidFile = path.join(tmpDir, `mermaid-${hash}.mmd`);
-  const configFile = path.join(tmpDir, `mermaid-config-${hash}.json`);
+  const mermaidFile = path.join(tmpDir, `mermaid-${id}.mmd`);
+  const configFile = path.join(tmpDir, `mermaid-config-${id}.json`);
 
   try {
     const mermaidConfig: any = {
@@ -146,20 +210,21 @@ export async function renderMermaidDiagram(
   options?: MermaidRenderOptions
 ): Promise<string> {
   const outputFormat = options?.outputFormat || 'png';
-  const hash = crypto.createHash('md5').update(mermaidCode).digest('hex').substring(0, 8);
+  const id = tempId(mermaidCode);
   const tmpDir = '/tmp';
-  const outputFile = path.join(tmpDir, `mermaid-${hash}.${outputFormat}`);
+  const outputFile = path.join(tmpDir, `mermaid-${id}.${outputFormat}`);
 
   // Try built-in renderer first (SVG output, then write to file)
-  const coreResult = renderMermaidCore(mermaidCode, 'svg');
-  if (coreResult?.svg) {
+  const coreSvg = await renderCoreSvg(mermaidCode);
+  if (coreSvg) {
     if (outputFormat === 'svg') {
-      await fs.writeFile(outputFile, coreResult.svg, 'utf-8');
+      await fs.writeFile(outputFile, coreSvg, 'utf-8');
       return outputFile;
     }
     // For PNG output: write SVG to temp file, chafa/image pipeline handles SVG directly
-    const svgFile = path.join(tmpDir, `mermaid-${hash}.svg`);
-    await fs.writeFile(svgFile, coreResult.svg, 'utf-8');
+    // (librsvg, which both use, needs the theme's CSS variables resolved first)
+    const svgFile = path.join(tmpDir, `mermaid-${id}.svg`);
+    await fs.writeFile(svgFile, resolveCssVariables(coreSvg), 'utf-8');
     return svgFile;
   }
 
@@ -167,7 +232,13 @@ export async function renderMermaidDiagram(
   const hasMmdc = await checkMmdcAvailable();
   if (hasMmdc) {
     try {
-      return await renderWithMmdc(mermaidCode, outputFile, options);
+      // mmdc starts a headless browser per diagram, so its output is cached too.
+      const data = await cachedBuffer('mermaid', ['mmdc', mermaidCode, options ?? {}, outputFormat], async () => {
+        await renderWithMmdc(mermaidCode, outputFile, options);
+        return fs.readFile(outputFile);
+      });
+      await fs.writeFile(outputFile, data);
+      return outputFile;
     } catch (error) {
       console.error('mmdc failed to render mermaid diagram:', error);
     }
@@ -193,9 +264,9 @@ export async function renderMermaidToSvg(
   options?: MermaidRenderOptions
 ): Promise<string> {
   // Try built-in renderer first (returns SVG string directly)
-  const coreResult = renderMermaidCore(mermaidCode, 'svg');
-  if (coreResult?.svg) {
-    return coreResult.svg;
+  const coreSvg = await renderCoreSvg(mermaidCode);
+  if (coreSvg) {
+    return coreSvg;
   }
 
   // Fall back to mmdc → file → read
@@ -1,6 +1,14 @@
 import { renderMermaidToSvg } from './mermaid.js';
+import { RenderScheduler } from './scheduler.js';
 import { extractSvgFromHtml } from './svg.js';
 import { loadProfile, RenderProfile } from './config.js';
+import { fetchRemoteImage, isRemoteUrl, remoteImagesEnabled } from './remote.js';
+import { resolveIncludes } from './include.js';
+import { admonitionStyles, rewriteAdmonitions, type AdmonitionKind } from './admonitions.js';
+import { parseFrontMatter, type FrontMatter } from './front-matter.js';
+import { stringify } from 'yaml';
+import { codeLines, hasFenceMetadata, parseFenceInfo } from './fence.js';
+import { editZipEntry } from './zip.js';
 import path from 'path';
 import fs from 'fs/promises';
 import { exec } from 'child_process';
@@ -25,21 +33,31 @@ export async function renderMarkdownToOdt(
       throw new Error(`Profile "${profileName}" is not configured for ODT output`);
     }
     
-    // Read the markdown file
-    const content = await fs.readFile(filePath, 'utf-8');
+    // Read the markdown file, its front matter and the files it includes
     const markdownDir = path.dirname(path.resolve(filePath));
+    const { frontMatter, body } = parseFrontMatter(await fs.readFile(filePath, 'utf-8'));
+    const content = await resolveIncludes(body, markdownDir, { filePath });
     
     // Process markdown content with mermaid diagrams, SVGs, and add image width attributes
     const processedContent = await processMermaidAndSvgBlocks(content, markdownDir, profile);
     
+    // Point remote images at downloaded copies (when enabled)
+    const localContent = await localizeRemoteImages(processedContent);
+
     // Add width attributes to all images in markdown
-    const markdownWithImageAttrs = addImageWidthAttributes(processedContent, profile);
+    const markdownWithImageAttrs = addImageWidthAttributes(localContent, profile);
+
+    // Admonitions as framed paragraphs
+    const markdownWithAdmonitions = admonitionsToDivs(markdownWithImageAttrs);
+
+    // Titles, line numbers and emphasized or diff lines of code blocks
+    const markdownWithCodeMetadata = applyCodeFenceMetadata(markdownWithAdmonitions);
     
     // Determine output path
     const finalOutputPath = outputPath || filePath.replace(/\.md$/i, '.odt');
     
     // Convert markdown directly to ODT using Pandoc with DPI setting
-    await convertMarkdownToOdt(markdownWithImageAttrs, finalOutputPath, markdownDir, profile);
+    await convertMarkdownToOdt(markdownWithCodeMetadata, finalOutputPath, markdownDir, profile, frontMatter);
     
     return finalOutputPath;
   } catch (error) {
@@ -112,6 +130,10 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
   let processedContent = '';
   let inMermaidBlock = false;
   let mermaidContent = '';
+
+  // Diagrams render concurrently; their output is spliced in in document order.
+  const scheduler = new RenderScheduler();
+  const append = (text: string): void => scheduler.emit(() => { processedContent += text; });
   
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -122,8 +144,9 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
       if (inMermaidBlock) {
         // End of mermaid block - render it
         inMermaidBlock = false;
-        
-        try {
+        const source = mermaidContent;
+
+        scheduler.schedule(async () => {
           // Generate mermaid diagram as PNG
           const mermaidOptions = {
             width: profile.mermaid.width,
@@ -136,24 +159,26 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
             outputFormat: 'svg' as const  // Use SVG for vector graphics in ODT
           };
           
-          const svgData = await renderMermaidToSvg(mermaidContent, mermaidOptions);
-
-          // Write SVG to temp directory for Pandoc to reference
-          const tempDir = path.join(os.tmpdir(), 'mmm-odt-images');
-          await fs.mkdir(tempDir, { recursive: true });
-
-          const imageName = `mermaid-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.svg`;
-          const tempImagePath = path.join(tempDir, imageName);
-          await fs.writeFile(tempImagePath, svgData, 'utf-8');
-
-          // Add as markdown image with width attribute for Pandoc
-          const widthPercent = Math.round(profile.images.widthPercent * 100);
-          processedContent += `![Mermaid Diagram](${tempImagePath}){width=${widthPercent}%}\n\n`;
-        } catch (error) {
-          // If mermaid rendering fails, include as code block
-          processedContent += '```mermaid\n' + mermaidContent + '```\n';
-          console.warn('Failed to render Mermaid diagram:', error);
-        }
+          try {
+            const svgData = await renderMermaidToSvg(source, mermaidOptions);
+
+            // Write SVG to temp directory for Pandoc to reference
+            const tempDir = path.join(os.tmpdir(), 'mmm-odt-images');
+            await fs.mkdir(tempDir, { recursive: true });
+
+            const imageName = `mermaid-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.svg`;
+            const tempImagePath = path.join(tempDir, imageName);
+            await fs.writeFile(tempImagePath, svgData, 'utf-8');
+
+            // Add as markdown image with width attribute for Pandoc
+            const widthPercent = Math.round(profile.images.widthPercent * 100);
+            return `![Mermaid Diagram](${tempImagePath}){width=${widthPercent}%}\n\n`;
+          } catch (error) {
+            // If mermaid rendering fails, include as code block
+            console.warn('Failed to render Mermaid diagram:', error);
+            return '```mermaid\n' + source + '```\n';
+          }
+        }, append);
         
         mermaidContent = '';
         continue;
@@ -164,7 +189,7 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
         continue;
       } else {
         // Regular code block
-        processedContent += line + '\n';
+        append(line + '\n');
         continue;
       }
     }
@@ -172,13 +197,36 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
     if (inMermaidBlock) {
       mermaidContent += line + '\n';
     } else {
-      processedContent += line + '\n';
+      append(line + '\n');
     }
   }
-  
+
+  await scheduler.drain();
   return processedContent;
 }
 
+async function localizeRemoteImages(markdown: string): Promise<string> {
+  if (!(await remoteImagesEnabled())) {
+    return markdown;
+  }
+
+  const imageRegex = /!\[([^\]]*)\]\((https?:\/\/[^)\s]+)([^)]*)\)/gi;
+  const localPaths = new Map<string, string>();
+  for (const [, , url] of markdown.matchAll(imageRegex)) {
+    if (localPaths.has(url) || !isRemoteUrl(url)) continue;
+    try {
+      localPaths.set(url, await fetchRemoteImage(url));
+    } catch (error) {
+      console.warn(`Failed to download image ${url}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return markdown.replace(imageRegex, (match, alt, url, rest) => {
+    const localPath = localPaths.get(url);
+    return localPath ? `![${alt}](<${localPath}>${rest})` : match;
+  });
+}
+
 function addImageWidthAttributes(markdown: string, profile: RenderProfile): string {
   // Find all markdown images and add width attributes
   const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)(?:\{[^}]+\})?/g;
@@ -195,18 +243,146 @@ function addImageWidthAttributes(markdown: string, profile: RenderProfile): stri
   });
 }
 
+/**
+ * GitHub alerts and ::: containers become pandoc divs with a custom style
+ * ("Admonition Note", "Admonition Warning"...), with the icon and title as a
+ * bold first line in the matching "Admonition Note Title" text style. Pandoc
+ * only names these styles; {@link addAdmonitionStyles} defines them.
+ */
+function admonitionsToDivs(markdown: string): string {
+  return rewriteAdmonitions(markdown, ({ kind, title, body }) => {
+    const style = admonitionStyles[kind];
+    return [
+      `::: {custom-style="${odtStyleName(`Admonition ${style.title}`)}"}`,
+      `[**${style.icon} ${title}**]{custom-style="${odtStyleName(`Admonition ${style.title} Title`)}"}`,
+      '',
+      admonitionsToDivs(body).trimEnd(),
+      ':::'
+    ].join('\n');
+  });
+}
+
+/**
+ * Pandoc has no notion of code block titles or emphasized lines, so fences
+ * with metadata (see fence.ts) are rewritten: the title becomes a bold
+ * paragraph above the block, and line numbers, a `▌` on emphasized lines and
+ * the `+` / `-` of diff lines go into the code as text. Pandoc still
+ * highlights the block as its language.
+ */
+function applyCodeFenceMetadata(markdown: string): string {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const open = /^(\s{0,3})(`{3,}|~{3,})(.*)$/.exec(lines[i]);
+    if (!open) {
+      output.push(lines[i]);
+      continue;
+    }
+    const [, indent, marker, info] = open;
+    let end = i + 1;
+    while (end < lines.length && !isClosingFence(lines[end], marker)) end++;
+    // Code lines lose up to the fence's indentation, as in CommonMark.
+    const body = lines.slice(i + 1, end).map(line => line.slice(Math.min(indent.length, line.search(/\S|$/))));
+    const fence = parseFenceInfo(info);
 
-async function convertMarkdownToOdt(markdown: string, outputPath: string, baseDir: string, profile: RenderProfile): Promise<void> {
+    if (!hasFenceMetadata(fence) || body.length === 0) {
+      output.push(...lines.slice(i, end + 1));
+    } else {
+      const numbered = codeLines(body.join('\n'), fence);
+      const numberWidth = String(numbered[numbered.length - 1].number).length;
+      if (fence.title !== undefined) {
+        output.push(`${indent}**${fence.title.replace(/[\\`*_[\]<>]/g, '\\$&')}**`, '');
+      }
+      output.push(`${indent}${marker}${fence.language ?? ''}`);
+      for (const line of numbered) {
+        let gutter = '';
+        if (fence.showLineNumbers) {
+          gutter = `${String(line.number).padStart(numberWidth)} ${line.emphasized ? '▌' : '│'} `;
+        } else if (fence.highlight.size > 0) {
+          gutter = line.emphasized ? '▌ ' : '  ';
+        }
+        output.push(`${indent}${gutter}${line.marker ?? ''}${line.text}`);
+      }
+      output.push(`${indent}${marker}`);
+    }
+    i = end;
+  }
+  return output.join('\n');
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const close = /^\s{0,3}(`{3,}|~{3,})\s*$/.exec(line);
+  return close !== null && close[1][0] === marker[0] && close[1].length >= marker.length;
+}
+
+// The colours of each kind's frame and background, as in the PDF.
+const ADMONITION_COLORS: Record<AdmonitionKind, { color: string; background: string }> = {
+  note: { color: '#0969da', background: '#ddf4ff' },
+  tip: { color: '#1a7f37', background: '#dafbe1' },
+  important: { color: '#8250df', background: '#fbefff' },
+  warning: { color: '#9a6700', background: '#fff8c5' },
+  caution: { color: '#cf222e', background: '#ffebe9' }
+};
+
+// A style name as ODF writes it, spaces encoded as `_20_`; pandoc passes
+// custom-style names through as they are.
+function odtStyleName(name: string): string {
+  return name.replace(/ /g, '_20_');
+}
+
+/**
+ * Define the admonition styles in the styles of the ODT at `file`: a
+ * paragraph style per kind with a coloured bar down the left, a tinted
+ * background and some padding (LibreOffice joins the borders of consecutive
+ * paragraphs into one frame), and a text style colouring its title. They
+ * are ordinary named styles, so they can be changed in the document.
+ */
+async function addAdmonitionStyles(file: string): Promise<void> {
+  const styles = (Object.keys(ADMONITION_COLORS) as AdmonitionKind[]).map(kind => {
+    const { color, background } = ADMONITION_COLORS[kind];
+    const name = `Admonition ${admonitionStyles[kind].title}`;
+    return [
+      `<style:style style:name="${odtStyleName(name)}" style:display-name="${name}" style:family="paragraph" style:parent-style-name="Text_20_body">`,
+      `<style:paragraph-properties fo:background-color="${background}" fo:border-left="0.1cm solid ${color}" fo:border-right="none" fo:border-top="none" fo:border-bottom="none" fo:padding-left="0.3cm" fo:padding-right="0.2cm" fo:padding-top="0.15cm" fo:padding-bottom="0.15cm" style:join-border="true"/>`,
+      '</style:style>',
+      `<style:style style:name="${odtStyleName(`${name} Title`)}" style:display-name="${name} Title" style:family="text">`,
+      `<style:text-properties fo:color="${color}"/>`,
+      '</style:style>'
+    ].join('');
+  }).join('');
+  const archive = await fs.readFile(file);
+  await fs.writeFile(file, editZipEntry(archive, 'styles.xml', xml => xml.replace('</office:styles>', `${styles}</office:styles>`)));
+}
+
+async function convertMarkdownToOdt(
+  markdown: string,
+  outputPath: string,
+  baseDir: string,
+  profile: RenderProfile,
+  frontMatter?: FrontMatter
+): Promise<void> {
   // Create markdown with metadata header for font configuration
   const fontSize = profile.fontSizes?.body || '11pt';
   // Extract numeric value from font size (e.g., '11pt' -> '11')
   const fontSizeNumeric = parseInt(fontSize.replace(/[^0-9]/g, ''));
   
-  // Add YAML metadata header with font settings
+  // One YAML metadata header: the document's front matter (title, author,
+  // date... become the ODT title block and properties) plus the font settings
+  const metadata: Record<string, unknown> = {
+    ...frontMatter?.data,
+    fontsize: `${fontSizeNumeric}pt`,
+    mainfont: profile.fonts.body,
+    monofont: profile.fonts.code
+  };
+  if (frontMatter && frontMatter.authors.length > 0) {
+    // Pandoc wants names, not `{name, email}` mappings
+    metadata.author = frontMatter.authors;
+  }
+  if (frontMatter && frontMatter.tags.length > 0 && metadata.keywords === undefined) {
+    metadata.keywords = frontMatter.tags;
+  }
   const markdownWithMetadata = `---
-fontsize: ${fontSizeNumeric}pt
-mainfont: ${profile.fonts.body}
-monofont: ${profile.fonts.code}
+${stringify(metadata).trimEnd()}
 ---
 
 ${markdown}`;
@@ -228,6 +404,7 @@ ${markdown}`;
       maxBuffer: 1024 * 1024 * 10, // 10MB buffer for large documents
       cwd: baseDir // Set working directory for relative image paths
     });
+    await addAdmonitionStyles(path.resolve(baseDir, outputPath));
     
     // Clean up temp file
     await fs.unlink(tempMdPath).catch(() => {});
@@ -0,0 +1,475 @@
+import fs from 'fs';
+import tty from 'tty';
+import open from 'open';
+import type { GraphicInfo, RenderOutput } from './render-output.js';
+import { detectTerminalCapabilities } from './terminal-caps.js';
+import { findHyperlinks, highlightHyperlink } from './links.js';
+import { headingSlug } from './sections.js';
+
+/**
+ * Built-in pager for terminal output (`mmm --pager`).
+ *
+ * `less -R` can't page sixel/kitty graphics: it sees an image as a few very
+ * long "lines" of escape data and scrolls them as text. The pager instead
+ * collects the renderer's output as rows — one per text line, and a known
+ * number of rows per graphic block — and redraws the visible window on the
+ * alternate screen whenever the view moves. A graphic is re-emitted only when
+ * it fits entirely inside the window (a sixel can't be clipped, and one drawn
+ * across the bottom edge would scroll the screen); otherwise its first visible
+ * row shows a placeholder.
+ *
+ * Hyperlinks in the document can be followed: Tab selects the next link,
+ * Enter opens it — another local markdown file or a heading in this one in
+ * the pager, anything else with the system opener — and Backspace goes back.
+ */
+
+// Used to turn a bitmap's pixel height into rows when the terminal doesn't
+// report its cell size. Terminal cells are roughly twice as tall as they are wide.
+const DEFAULT_CELL_HEIGHT = 16;
+
+// Start of a sixel, kitty or iTerm2 image.
+const PIXEL_GRAPHICS_RE = /\x1bP[0-9;]*q|\x1b_G|\x1b\]1337;File=/;
+
+interface GraphicBlock {
+  data: string;
+  rows: number;
+  info: GraphicInfo;
+}
+
+type Row =
+  | { kind: 'text'; text: string }
+  | { kind: 'graphic'; block: GraphicBlock; offset: number };
+
+/**
+ * Estimate how many terminal rows a graphics escape sequence occupies:
+ * from the sixel raster attributes (`"Pan;Pad;Ph;Pv`), the kitty `r=` key or
+ * the iTerm2 `height=` argument, falling back to the number of lines in it.
+ */
+export function graphicRows(data: string, cellHeight: number = DEFAULT_CELL_HEIGHT): number {
+  const sixel = /\x1bP[0-9;]*q"\d+;\d+;\d+;(\d+)/.exec(data);
+  if (sixel) return Math.max(1, Math.ceil(Number(sixel[1]) / cellHeight));
+  const kitty = /\x1b_G[^;\x1b]*\br=(\d+)/.exec(data);
+  if (kitty) return Math.max(1, Number(kitty[1]));
+  const iterm = /\x1b\]1337;File=[^:]*\bheight=(\d+)(?:[;:])/.exec(data);
+  if (iterm) return Math.max(1, Number(iterm[1]));
+  return Math.max(1, data.split('\n').length);
+}
+
+/**
+ * A {@link RenderOutput} that lays the rendered document out as rows instead
+ * of writing it anywhere.
+ */
+export class PagerDocument implements RenderOutput {
+  readonly rows: Row[] = [];
+  readonly inlineGraphics = false;
+  private pending = '';
+
+  constructor(private readonly cellHeight: number = DEFAULT_CELL_HEIGHT) {}
+
+  write(text: string): void {
+    const lines = (this.pending + text).split('\n');
+    this.pending = lines.pop() ?? '';
+    for (const line of lines) {
+      this.rows.push({ kind: 'text', text: line });
+    }
+  }
+
+  writeGraphic(data: string, info: GraphicInfo): void {
+    // Character-cell images (no pixel protocol) are just coloured text and
+    // scroll line by line like the prose around them.
+    if (!PIXEL_GRAPHICS_RE.test(data)) {
+      this.write(data);
+      return;
+    }
+    if (this.pending) this.write('\n');
+    const trimmed = data.replace(/\n+$/, '');
+    const block: GraphicBlock = { data: trimmed, rows: graphicRows(trimmed, this.cellHeight), info };
+    for (let offset = 0; offset < block.rows; offset++) {
+      this.rows.push({ kind: 'graphic', block, offset });
+    }
+  }
+
+  /** Flush a trailing partial line. Call once rendering has finished. */
+  finish(): void {
+    if (this.pending) this.write('\n');
+  }
+}
+
+/** A document the pager can show. */
+export interface PagerPage {
+  render: (output: RenderOutput) => Promise<void>;
+  /** Shown in the status line (usually the file name). */
+  title: string;
+  /** The document's `file://` URL, so links into it are recognized as anchors. */
+  url?: string;
+}
+
+export interface PagerOptions {
+  /** Shown in the status line (usually the file name). */
+  title: string;
+  /** The document's `file://` URL (see {@link PagerPage}). */
+  url?: string;
+  /** Cell height in pixels (default: as reported by the terminal). */
+  cellHeight?: number;
+  /**
+   * The page to show for a followed link's URL (without the `#anchor`), or
+   * undefined to hand the URL to the system opener instead.
+   */
+  openLink?: (url: string) => PagerPage | undefined;
+}
+
+interface LinkPosition {
+  row: number;
+  /** Which hyperlink within the row. */
+  index: number;
+  url: string;
+}
+
+/**
+ * Full-screen pager over a rendered document. `render` fills the document;
+ * it is called again whenever the terminal is resized, since prose reflows
+ * and images resize with the width, and by watch mode when the source changes.
+ */
+export class Pager {
+  private doc: PagerDocument;
+  private page: PagerPage;
+  private top = 0;
+  private running = false;
+  private links: LinkPosition[] = [];
+  private selected: LinkPosition | undefined;
+  // Where Backspace returns to.
+  private readonly history: { page: PagerPage; top: number }[] = [];
+  private message: string | undefined;
+  // Renders share marked's global renderer and its link and footnote state,
+  // so they run one at a time.
+  private rendering: Promise<void> = Promise.resolve();
+
+  constructor(
+    render: (output: RenderOutput) => Promise<void>,
+    private readonly options: PagerOptions
+  ) {
+    this.doc = new PagerDocument(options.cellHeight);
+    this.page = { render, title: options.title, url: options.url };
+  }
+
+  /**
+   * (Re-)render the document. With `anchor` (a heading's text) the view jumps
+   * to that heading; otherwise it stays at the same relative position. Redraws
+   * the screen when the pager is already showing.
+   */
+  load(anchor?: string): Promise<void> {
+    return this.show(this.page, anchor);
+  }
+
+  // Render `page` and make it the current one, at `anchor`, at row `top`, or
+  // (re-rendering the current page) at the same relative position.
+  private show(page: PagerPage, anchor?: string, top?: number): Promise<void> {
+    const shown = this.rendering.then(() => this.render(page, anchor, top));
+    this.rendering = shown.catch(() => {});
+    return shown;
+  }
+
+  private async render(page: PagerPage, anchor?: string, top?: number): Promise<void> {
+    const cellHeight = this.options.cellHeight ?? (await detectTerminalCapabilities()).cellSize?.height;
+    const doc = new PagerDocument(cellHeight);
+    await page.render(doc);
+    doc.finish();
+    const fraction = page === this.page && this.doc.rows.length > 0 ? this.top / this.doc.rows.length : 0;
+    this.page = page;
+    this.doc = doc;
+    this.links = findLinks(doc.rows);
+    this.selected = undefined;
+    const anchorRow = anchor === undefined ? -1 : findHeadingRow(doc.rows, anchor);
+    this.top = anchorRow >= 0 ? anchorRow : top ?? Math.round(fraction * doc.rows.length);
+    this.clampTop();
+    if (this.running) this.draw();
+  }
+
+  /**
+   * Follow a link: jump to a heading in this document, show another local
+   * document, or pass the URL to the system opener.
+   */
+  private async follow(url: string): Promise<void> {
+    const hashAt = url.indexOf('#');
+    const target = hashAt < 0 ? url : url.slice(0, hashAt);
+    const anchor = hashAt < 0 ? undefined : safeDecode(url.slice(hashAt + 1));
+
+    if (target === '' || target === this.page.url) {
+      const row = anchor === undefined ? -1 : findHeadingRow(this.doc.rows, anchor);
+      if (row < 0) {
+        this.message = `No heading #${anchor ?? ''} in this document`;
+      } else {
+        this.history.push({ page: this.page, top: this.top });
+        this.top = row;
+        this.selected = undefined;
+        this.clampTop();
+      }
+      this.draw();
+      return;
+    }
+
+    const page = this.options.openLink?.(target);
+    if (!page) {
+      this.message = `Opening ${url}`;
+      this.draw();
+      open(url).catch(() => {});
+      return;
+    }
+    this.history.push({ page: this.page, top: this.top });
+    await this.show(page, anchor, 0);
+  }
+
+  // Return to the place the last followed link was followed from.
+  private async back(): Promise<void> {
+    const entry = this.history.pop();
+    if (!entry) return;
+    if (entry.page !== this.page) {
+      await this.show(entry.page, undefined, entry.top);
+      return;
+    }
+    this.top = entry.top;
+    this.selected = undefined;
+    this.clampTop();
+    this.draw();
+  }
+
+  // Select the next (or previous) link, starting from the current selection
+  // or the top of the screen, and scroll it into view.
+  private selectLink(step: 1 | -1): void {
+    if (this.links.length === 0) {
+      this.message = 'No links in this document';
+      return;
+    }
+    const current = this.selected ? this.links.indexOf(this.selected) : -1;
+    let next: number;
+    if (current >= 0 && this.isVisible(this.selected!.row)) {
+      next = (current + step + this.links.length) % this.links.length;
+    } else {
+      const onScreen = this.links.findIndex(l => l.row >= this.top);
+      next = onScreen >= 0 ? onScreen : 0;
+      if (step < 0 && onScreen > 0) next = onScreen - 1;
+    }
+    this.selected = this.links[next];
+    if (!this.isVisible(this.selected.row)) {
+      this.top = this.selected.row - Math.floor(this.viewRows() / 3);
+    }
+  }
+
+  private isVisible(row: number): boolean {
+    return row >= this.top && row < this.top + this.viewRows();
+  }
+
+  /** Show the pager and handle keys until the user quits. */
+  run(): Promise<void> {
+    const keyboard = openKeyboard();
+    const restore = (): void => {
+      process.stdout.write('\x1b[?7h\x1b[?25h\x1b[?1049l');
+    };
+    process.on('exit', restore);
+    process.stdout.write('\x1b[?1049h\x1b[?25l\x1b[?7l');
+    keyboard.setRawMode(true);
+    keyboard.resume();
+    this.running = true;
+    this.draw();
+
+    return new Promise((resolve) => {
+      const onResize = (): void => {
+        this.load().catch((error: unknown) => {
+          this.message = `Render failed: ${error instanceof Error ? error.message : String(error)}`;
+          this.draw();
+        });
+      };
+
+      const onKey = (input: Buffer): void => {
+        // One read can hold several keys: typed fast, held down or pasted.
+        if (splitKeys(input.toString('utf-8')).every(key => this.handleKey(key))) {
+          this.draw();
+          return;
+        }
+        // Quit
+        this.running = false;
+        keyboard.setRawMode(false);
+        keyboard.off('data', onKey);
+        keyboard.pause();
+        if (keyboard !== process.stdin) keyboard.destroy();
+        process.stdout.off('resize', onResize);
+        process.off('exit', restore);
+        restore();
+        resolve();
+      };
+
+      keyboard.on('data', onKey);
+      process.stdout.on('resize', onResize);
+    });
+  }
+
+  // Apply a keypress. Returns false when the key means "quit".
+  private handleKey(key: string): boolean {
+    const page = this.viewRows();
+    this.message = undefined;
+    switch (key) {
+      case 'q':
+      case 'Q':
+      case '\x03':  // Ctrl-C
+        return false;
+      case '\t':
+        this.selectLink(1);
+        break;
+      case '\x1b[Z':  // Shift-Tab
+        this.selectLink(-1);
+        break;
+      case '\r':
+        if (this.selected && this.isVisible(this.selected.row)) {
+          void this.follow(this.selected.url);
+          return true;
+        }
+        this.top += 1;
+        break;
+      case '\x7f':
+      case '\b':
+        void this.back();
+        return true;
+      case 'j':
+      case '\x1b[B':
+        this.top += 1;
+        break;
+      case 'k':
+      case '\x1b[A':
+        this.top -= 1;
+        break;
+      case ' ':
+      case 'f':
+      case '\x1b[6~':
+        this.top += page;
+        break;
+      case 'b':
+      case '\x1b[5~':
+        this.top -= page;
+        break;
+      case 'd':
+        this.top += Math.floor(page / 2);
+        break;
+      case 'u':
+        this.top -= Math.floor(page / 2);
+        break;
+      case 'g':
+      case '\x1b[H':
+      case '\x1b[1~':
+        this.top = 0;
+        break;
+      case 'G':
+      case '\x1b[F':
+      case '\x1b[4~':
+        this.top = this.doc.rows.length;
+        break;
+    }
+    this.clampTop();
+    return true;
+  }
+
+  // Rows available for content; the last screen row is the status line.
+  private viewRows(): number {
+    return Math.max(1, (process.stdout.rows || 24) - 1);
+  }
+
+  private clampTop(): void {
+    const maxTop = Math.max(0, this.doc.rows.length - this.viewRows());
+    this.top = Math.max(0, Math.min(this.top, maxTop));
+  }
+
+  private draw(): void {
+    const height = this.viewRows();
+    const rows = this.doc.rows;
+    let frame = '';
+
+    // Kitty keeps image placements across a screen clear; drop them explicitly.
+    if (rows.some(r => r.kind === 'graphic' && r.block.data.includes('\x1b_G'))) {
+      frame += '\x1b_Ga=d,d=a\x1b\\';
+    }
+    frame += '\x1b[H\x1b[2J';
+
+    for (let screenRow = 0; screenRow < height; screenRow++) {
+      const row = rows[this.top + screenRow];
+      if (!row) break;
+      frame += `\x1b[${screenRow + 1};1H`;
+
+      if (row.kind === 'text') {
+        const selected = this.selected?.row === this.top + screenRow ? this.selected : undefined;
+        frame += (selected ? highlightHyperlink(row.text, selected.index) : row.text) + '\x1b[0m';
+        continue;
+      }
+
+      const { block, offset } = row;
+      const fitsBelow = offset === 0 && screenRow + block.rows < height;
+      if (fitsBelow) {
+        frame += block.data;
+        screenRow += block.rows - 1;
+      } else if (offset === 0 || screenRow === 0) {
+        frame += `\x1b[2m[${block.info.label} — scroll to view]\x1b[0m`;
+      }
+    }
+
+    frame += `\x1b[${height + 1};1H` + this.statusLine();
+    process.stdout.write(frame);
+  }
+
+  private statusLine(): string {
+    const total = this.doc.rows.length;
+    const last = Math.min(total, this.top + this.viewRows());
+    const percent = total === 0 ? 100 : Math.round((last / total) * 100);
+    const hint = this.message ??
+      (this.selected ? `⏎ ${this.selected.url}` : 'j/k scroll · space/b page · tab link · q quit') +
+      (this.history.length > 0 ? ' · ⌫ back' : '');
+    const text = ` ${this.page.title}  ${this.top + 1}-${last}/${total} (${percent}%)  ${hint} `;
+    const width = process.stdout.columns || 80;
+    return `\x1b[7m${text.slice(0, width).padEnd(width)}\x1b[0m`;
+  }
+}
+
+// First text row that renders the given heading — by its text, or by its
+// anchor slug for `#anchor` links. Rendered headings carry ANSI styling and
+// marked-terminal's `#` prefix, so compare the bare text.
+function findHeadingRow(rows: Row[], heading: string): number {
+  const wanted = heading.trim();
+  return rows.findIndex(row => {
+    if (row.kind !== 'text') return false;
+    const text = row.text
+      .replace(/\x1b\[[0-9;]*m|\x1b\]8;[^\x07\x1b]*(?:\x07|\x1b\\)/g, '')
+      .replace(/^\s*#+\s*/, '')
+      .trim();
+    return text !== '' && (text === wanted || headingSlug(text) === wanted.toLowerCase());
+  });
+}
+
+function findLinks(rows: Row[]): LinkPosition[] {
+  const links: LinkPosition[] = [];
+  rows.forEach((row, i) => {
+    if (row.kind !== 'text') return;
+    findHyperlinks(row.text).forEach((url, index) => links.push({ row: i, index, url }));
+  });
+  return links;
+}
+
+// A chunk of terminal input as single keys: escape sequences (CSI and SS3,
+// as sent by arrows, Home/End and Page Up/Down) stay whole, anything else is
+// one character each.
+const KEY_RE = /\x1b\[[0-?]*[ -\/]*[@-~]|\x1bO.|[^]/gu;
+
+function splitKeys(input: string): string[] {
+  return input.match(KEY_RE) ?? [];
+}
+
+function safeDecode(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
+
+// Keys come from stdin when it's a terminal; when the document itself was
+// piped in, read them from the controlling terminal instead.
+function openKeyboard(): tty.ReadStream {
+  if (process.stdin.isTTY) return process.stdin as tty.ReadStream;
+  return new tty.ReadStream(fs.openSync('/dev/tty', 'r'));
+}
@@ -1,13 +1,17 @@
 import { Marked } from 'marked';
 import { markedHighlight } from 'marked-highlight';
-import markedFootnote from 'marked-footnote';
-import { markedEmoji } from 'marked-emoji';
-import * as nodeEmoji from 'node-emoji';
 import hljs from 'highlight.js';
 import { renderMermaidToSvg } from './mermaid.js';
+import { RenderScheduler } from './scheduler.js';
 import { extractSvgFromHtml } from './svg.js';
 import { protectMathInMarkdown, restoreMathPlaceholders } from './math.js';
 import { loadProfile, RenderProfile } from './config.js';
+import { fetchRemoteImage, isRemoteUrl, remoteImagesEnabled } from './remote.js';
+import { resolveIncludes } from './include.js';
+import { emojiExtension, footnoteExtension, htmlInlineStyles, inlineStylesExtension } from './markdown-extensions.js';
+import { admonitionExtension, admonitionStyles } from './admonitions.js';
+import { hasTitleBlock, parseFrontMatter, type FrontMatter } from './front-matter.js';
+import { codeLines, hasFenceMetadata, parseFenceInfo, type FenceInfo } from './fence.js';
 import path from 'path';
 import fs from 'fs/promises';
 import { readFileSync } from 'fs';
@@ -17,14 +21,6 @@ import { createRequire } from 'module';
 const _require = createRequire(import.meta.url);
 const hljsCss = readFileSync(_require.resolve('highlight.js/styles/github.min.css'), 'utf-8');
 
-// Build emoji shortcode map from node-emoji (GitHub/Slack-compatible shortcodes)
-const emojiMap: { [key: string]: string } = {};
-for (const { name, emoji } of nodeEmoji.search('')) {
-  emojiMap[name] = emoji;
-}
-emojiMap['+1'] = '👍';
-emojiMap['-1'] = '👎';
-
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -33,64 +29,100 @@ function escapeHtml(str: string): string {
     .replace(/"/g, '&quot;');
 }
 
-// Custom inline extensions for subscript, superscript, and highlight
-const subscript = {
-  name: 'subscript',
-  level: 'inline' as const,
-  start(src: string) { return src.match(/~(?!~)/)?.index; },
-  tokenizer(src: string) {
-    const match = src.match(/^~([^~\s]+)~/);
-    if (match) return { type: 'subscript', raw: match[0], text: match[1] };
-    return undefined;
-  },
-  renderer(token: { text: string }) { return `<sub>${escapeHtml(token.text)}</sub>`; }
-};
-
-const superscript = {
-  name: 'superscript',
-  level: 'inline' as const,
-  start(src: string) { return src.match(/\^(?!\^)/)?.index; },
-  tokenizer(src: string) {
-    const match = src.match(/^\^([^\^\s]+)\^/);
-    if (match) return { type: 'superscript', raw: match[0], text: match[1] };
-    return undefined;
-  },
-  renderer(token: { text: string }) { return `<sup>${escapeHtml(token.text)}</sup>`; }
-};
-
-const highlightExt = {
-  name: 'highlight',
-  level: 'inline' as const,
-  start(src: string) { return src.match(/==/)?.index; },
-  tokenizer(src: string) {
-    const match = src.match(/^==([^=]+)==/);
-    if (match) return { type: 'highlight', raw: match[0], text: match[1] };
-    return undefined;
-  },
-  renderer(token: { text: string }) { return `<mark>${escapeHtml(token.text)}</mark>`; }
-};
-
 // Create a new instance of marked specifically for PDF generation
 // This prevents interference from the terminal renderer configuration
 const marked = new Marked();
 
-// Configure marked with syntax highlighting and options
+// Configure marked with syntax highlighting and options. The info string can
+// carry a title, line numbers and emphasized or diff lines (see fence.ts).
 marked.use(markedHighlight({
   langPrefix: 'hljs language-',
-  highlight(code, lang) {
-    const language = hljs.getLanguage(lang) ? lang : 'plaintext';
-    return hljs.highlight(code, { language }).value;
+  highlight(code, _lang, info) {
+    const fence = parseFenceInfo(info);
+    const language = fence.language && hljs.getLanguage(fence.language) ? fence.language : 'plaintext';
+    if (!hasFenceMetadata(fence)) {
+      return hljs.highlight(code, { language }).value;
+    }
+    return decorateCodeLines(code, fence, language);
   }
 }));
 
+// Code blocks with metadata get their class from the parsed language (not the
+// info string's first word, which may be `{1,3}`) and their title above them.
+marked.use({
+  renderer: {
+    code(token) {
+      const fence = parseFenceInfo(token.lang);
+      if (!hasFenceMetadata(fence)) return false;
+      const classAttr = fence.language ? ` class="hljs language-${escapeHtml(fence.language)}"` : ' class="hljs"';
+      const body = token.escaped ? token.text : escapeHtml(token.text);
+      const pre = `<pre><code${classAttr}>${body.replace(/\n$/, '')}\n</code></pre>`;
+      if (fence.title === undefined) return pre;
+      return `<div class="code-block"><div class="code-title">${escapeHtml(fence.title)}</div>${pre}</div>\n`;
+    }
+  }
+});
+
+// Highlighted lines of a block, each in a `code-line` span (classed
+// `emphasized`, `added` or `removed`) after its line number and diff marker.
+function decorateCodeLines(code: string, fence: FenceInfo, language: string): string {
+  const lines = codeLines(code, fence);
+  const highlighted = splitHighlightedLines(
+    hljs.highlight(lines.map(line => line.text).join('\n'), { language }).value
+  );
+  const numberWidth = String(lines[lines.length - 1].number).length;
+  return lines.map((line, i) => {
+    const classes = ['code-line'];
+    if (line.emphasized) classes.push('emphasized');
+    if (line.marker === '+') classes.push('added');
+    if (line.marker === '-') classes.push('removed');
+    const number = fence.showLineNumbers
+      ? `<span class="line-number">${String(line.number).padStart(numberWidth)}</span>`
+      : '';
+    const marker = line.marker !== undefined ? `<span class="diff-marker">${line.marker}</span>` : '';
+    // A space keeps an empty line's height.
+    return `<span class="${classes.join(' ')}">${number}${marker}${highlighted[i] || ' '}</span>`;
+  }).join('');
+}
+
+// highlight.js HTML split at line breaks, closing the spans open at the end
+// of each line and reopening them at the start of the next.
+function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let current = '';
+  for (const [piece] of html.matchAll(/<span[^>]*>|<\/span>|\n|[^<\n]+/g)) {
+    if (piece === '\n') {
+      lines.push(current + '</span>'.repeat(open.length));
+      current = open.join('');
+      continue;
+    }
+    if (piece.startsWith('<span')) open.push(piece);
+    else if (piece === '</span>') open.pop();
+    current += piece;
+  }
+  lines.push(current + '</span>'.repeat(open.length));
+  return lines;
+}
+
 // Footnotes
-marked.use(markedFootnote());
+marked.use(footnoteExtension());
 
 // Emoji shortcodes (:rocket: -> 🚀)
-marked.use(markedEmoji({ emojis: emojiMap, renderer: (token) => token.emoji }));
+marked.use(emojiExtension());
 
 // Subscript (~text~), superscript (^text^), highlight (==text==)
-marked.use({ extensions: [subscript, superscript, highlightExt] } as any);
+marked.use(inlineStylesExtension(htmlInlineStyles));
+
+// GitHub alerts and ::: containers as callouts
+marked.use({
+  extensions: [admonitionExtension(function(token) {
+    const style = admonitionStyles[token.kind];
+    return `<div class="admonition admonition-${token.kind}">
+<p class="admonition-title">${style.icon} ${escapeHtml(token.title)}</p>
+${this.parser.parse(token.tokens)}</div>\n`;
+  })]
+});
 
 // Set marked options to ensure tables and other features work
 marked.setOptions({
@@ -112,9 +144,10 @@ export async function renderMarkdownToPdf(
       throw new Error(`Profile "${profileName}" is not configured for PDF output`);
     }
 
-    // Read the markdown file
-    const content = await fs.readFile(filePath, 'utf-8');
+    // Read the markdown file, its front matter and the files it includes
     const markdownDir = path.dirname(path.resolve(filePath));
+    const { frontMatter, body } = parseFrontMatter(await fs.readFile(filePath, 'utf-8'));
+    const content = await resolveIncludes(body, markdownDir, { filePath });
 
     // Process markdown content with mermaid diagrams and embedded SVGs.
     // Math is rendered to MathML and returned as placeholders that survive marked.
@@ -129,14 +162,16 @@ export async function renderMarkdownToPdf(
     // Process images to embed them as base64
     const htmlWithImages = await embedImages(htmlContent, markdownDir);
 
-    // Generate complete HTML document with styling
-    const fullHtml = generateHtmlDocument(htmlWithImages, profile, path.basename(filePath, '.md'));
+    // Generate complete HTML document with styling, titled by the front matter
+    const titleBlock = frontMatter && hasTitleBlock(frontMatter) ? generateTitleBlock(frontMatter) : '';
+    const title = frontMatter?.title ?? path.basename(filePath, '.md');
+    const fullHtml = generateHtmlDocument(titleBlock + htmlWithImages, profile, title);
 
     // Determine output path
     const finalOutputPath = outputPath || filePath.replace(/\.md$/i, '.pdf');
 
     // Generate PDF using Puppeteer
-    await generatePdf(fullHtml, finalOutputPath, profile);
+    await generatePdf(fullHtml, finalOutputPath, profile, frontMatter);
 
     return finalOutputPath;
   } catch (error) {
@@ -207,6 +242,10 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
   let inMermaidBlock = false;
   let mermaidContent = '';
 
+  // Diagrams render concurrently; their output is spliced in in document order.
+  const scheduler = new RenderScheduler();
+  const append = (text: string): void => scheduler.emit(() => { processedContent += text; });
+
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
 
@@ -216,8 +255,9 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
       if (inMermaidBlock) {
         // End of mermaid block - render it
         inMermaidBlock = false;
+        const source = mermaidContent;
 
-        try {
+        scheduler.schedule(async () => {
           const mermaidOptions = {
             width: profile.mermaid.width,
             height: profile.mermaid.height,
@@ -229,18 +269,20 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
             outputFormat: 'svg' as const
           };
 
-          const svgData = await renderMermaidToSvg(mermaidContent, mermaidOptions);
+          try {
+            const svgData = await renderMermaidToSvg(source, mermaidOptions);
 
-          const base64 = Buffer.from(svgData).toString('base64');
-          const dataUri = `data:image/svg+xml;base64,${base64}`;
+            const base64 = Buffer.from(svgData).toString('base64');
+            const dataUri = `data:image/svg+xml;base64,${base64}`;
 
-          const widthPct = (profile.images.widthPercent * 100).toFixed(0);
-          processedContent += `<img src="${dataUri}" alt="Mermaid Diagram" style="width: ${widthPct}%; max-width: 100%; height: auto; display: block; margin: 0 auto;">\n\n`;
-        } catch (error) {
-          // If mermaid rendering fails, include as code block
-          processedContent += '```mermaid\n' + mermaidContent + '```\n';
-          console.warn('Failed to render Mermaid diagram:', error);
-        }
+            const widthPct = (profile.images.widthPercent * 100).toFixed(0);
+            return `<img src="${dataUri}" alt="Mermaid Diagram" style="width: ${widthPct}%; max-width: 100%; height: auto; display: block; margin: 0 auto;">\n\n`;
+          } catch (error) {
+            // If mermaid rendering fails, include as code block
+            console.warn('Failed to render Mermaid diagram:', error);
+            return '```mermaid\n' + source + '```\n';
+          }
+        }, append);
 
         mermaidContent = '';
         continue;
@@ -251,7 +293,7 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
         continue;
       } else {
         // Regular code block
-        processedContent += line + '\n';
+        append(line + '\n');
         continue;
       }
     }
@@ -259,10 +301,11 @@ async function processMermaidBlocks(content: string, _markdownDir: string, profi
     if (inMermaidBlock) {
       mermaidContent += line + '\n';
     } else {
-      processedContent += line + '\n';
+      append(line + '\n');
     }
   }
 
+  await scheduler.drain();
   return processedContent;
 }
 
@@ -279,19 +322,22 @@ async function embedImages(html: string, markdownDir: string): Promise<string> {
   let match;
 
   const replacements: Array<{ original: string; replacement: string }> = [];
+  const fetchRemote = await remoteImagesEnabled();
 
   while ((match = imgRegex.exec(result)) !== null) {
     const [fullMatch, src] = match;
 
-    // Skip if already a data URI or external URL
-    if (src.startsWith('data:') || src.startsWith('http')) {
+    // Skip if already a data URI, or an external URL with remote images off
+    if (src.startsWith('data:') || (isRemoteUrl(src) && !fetchRemote)) {
       continue;
     }
 
-    // Resolve image path
-    const imagePath = path.isAbsolute(src) ? src : path.resolve(markdownDir, src);
-
     try {
+      // Resolve image path (downloading remote images)
+      const imagePath = isRemoteUrl(src)
+        ? await fetchRemoteImage(src.replace(/&amp;/g, '&'))
+        : path.isAbsolute(src) ? src : path.resolve(markdownDir, src);
+
       // Read image and convert to base64
       const imageData = await fs.readFile(imagePath);
       const ext = path.extname(imagePath).toLowerCase().slice(1);
@@ -322,7 +368,10 @@ function getMimeType(ext: string): string {
     'jpeg': 'image/jpeg',
     'gif': 'image/gif',
     'svg': 'image/svg+xml',
-    'webp': 'image/webp'
+    'webp': 'image/webp',
+    'avif': 'image/avif',
+    'tiff': 'image/tiff',
+    'bmp': 'image/bmp'
   };
   return mimeTypes[ext] || 'image/png';
 }
@@ -349,6 +398,26 @@ function generateHtmlDocument(content: string, profile: RenderProfile, title: st
 </html>`;
 }
 
+// The title, authors, date, description and tags from the front matter.
+function generateTitleBlock(frontMatter: FrontMatter): string {
+  const parts: string[] = [];
+  if (frontMatter.title) {
+    parts.push(`<h1 class="doc-title">${escapeHtml(frontMatter.title)}</h1>`);
+  }
+  const byline = [frontMatter.authors.join(', '), frontMatter.date].filter(Boolean).join(' · ');
+  if (byline) {
+    parts.push(`<p class="doc-byline">${escapeHtml(byline)}</p>`);
+  }
+  if (frontMatter.description) {
+    parts.push(`<p class="doc-description">${escapeHtml(frontMatter.description)}</p>`);
+  }
+  if (frontMatter.tags.length > 0) {
+    const tags = frontMatter.tags.map(tag => `<span class="doc-tag">${escapeHtml(tag)}</span>`).join(' ');
+    parts.push(`<p class="doc-tags">${tags}</p>`);
+  }
+  return `<header class="front-matter">\n${parts.join('\n')}\n</header>\n`;
+}
+
 function generateCss(profile: RenderProfile): string {
   const colors = profile.colors || {};
   const fonts = profile.fonts;
@@ -439,6 +508,103 @@ function generateCss(profile: RenderProfile): string {
       color: ${codeColors.text || '#24292e'};
     }
 
+    /* Admonitions (GitHub alerts, ::: containers) */
+    .admonition {
+      margin: 1em 0;
+      padding: 0.6em 1em;
+      border-left: 4px solid var(--admonition-color);
+      border-radius: 4px;
+      background-color: var(--admonition-background);
+      page-break-inside: avoid;
+    }
+
+    .admonition > :last-child {
+      margin-bottom: 0;
+    }
+
+    .admonition-title {
+      margin: 0 0 0.4em;
+      font-weight: 600;
+      color: var(--admonition-color);
+    }
+
+    .admonition-note { --admonition-color: #0969da; --admonition-background: #ddf4ff; }
+    .admonition-tip { --admonition-color: #1a7f37; --admonition-background: #dafbe1; }
+    .admonition-important { --admonition-color: #8250df; --admonition-background: #fbefff; }
+    .admonition-warning { --admonition-color: #9a6700; --admonition-background: #fff8c5; }
+    .admonition-caution { --admonition-color: #cf222e; --admonition-background: #ffebe9; }
+
+    /* Title block from the front matter */
+    .front-matter {
+      margin-bottom: 2em;
+      padding-bottom: 1em;
+      border-bottom: 1px solid #e1e4e8;
+    }
+
+    .front-matter .doc-title {
+      margin: 0 0 0.3em;
+      border-bottom: none;
+    }
+
+    .doc-byline {
+      margin: 0.2em 0;
+      color: #57606a;
+    }
+
+    .doc-description {
+      margin: 0.5em 0;
+      font-style: italic;
+    }
+
+    .doc-tag {
+      display: inline-block;
+      font-size: 0.85em;
+      padding: 0.1em 0.6em;
+      border-radius: 1em;
+      background-color: #ddf4ff;
+      color: #0969da;
+    }
+
+    /* Code block titles, line numbers, emphasized and diff lines */
+    .code-block {
+      margin: 1em 0;
+      page-break-inside: avoid;
+    }
+
+    .code-title {
+      font-family: ${fonts.code};
+      font-size: ${fontSizes.code || '10pt'};
+      font-weight: 600;
+      background-color: #eaeef2;
+      border: 1px solid #e1e4e8;
+      border-bottom: none;
+      border-radius: 6px 6px 0 0;
+      padding: 6px 16px;
+    }
+
+    .code-block pre {
+      margin: 0;
+      border-top-left-radius: 0;
+      border-top-right-radius: 0;
+    }
+
+    pre code .code-line {
+      display: block;
+      margin: 0 -16px;
+      padding: 0 16px;
+    }
+
+    .code-line.emphasized { background-color: rgba(255, 212, 0, 0.2); }
+    .code-line.added { background-color: #e6ffec; }
+    .code-line.removed { background-color: #ffebe9; }
+    .code-line.added .diff-marker { color: #1a7f37; }
+    .code-line.removed .diff-marker { color: #cf222e; }
+
+    .line-number {
+      color: #8c959f;
+      margin-right: 1.5em;
+    }
+
     /* Syntax highlighting color overrides */
     .hljs-keyword { color: ${codeColors.keyword || '#d73a49'}; }
     .hljs-string { color: ${codeColors.string || '#032f62'}; }
@@ -573,7 +739,12 @@ function generateCss(profile: RenderProfile): string {
   `;
 }
 
-async function generatePdf(html: string, outputPath: string, profile: RenderProfile): Promise<void> {
+async function generatePdf(
+  html: string,
+  outputPath: string,
+  profile: RenderProfile,
+  frontMatter?: FrontMatter
+): Promise<void> {
   let puppeteer: any;
   try {
     // @ts-ignore — puppeteer is an optionalDependency; may not be installed on this platform.
@@ -642,8 +813,8 @@ async function generatePdf(html: string, outputPath: string, profile: RenderProf
       landscape: profile.pdf?.orientation === 'landscape',
       printBackground: true,
       displayHeaderFooter: profile.pdf?.headerFooter?.enabled || false,
-      headerTemplate: profile.pdf?.headerFooter?.enabled ? generateHeader(profile) : undefined,
-      footerTemplate: profile.pdf?.headerFooter?.enabled ? generateFooter(profile) : undefined,
+      headerTemplate: profile.pdf?.headerFooter?.enabled ? generateHeader(profile, frontMatter) : undefined,
+      footerTemplate: profile.pdf?.headerFooter?.enabled ? generateFooter(profile, frontMatter) : undefined,
       margin: {
         top: profile.pdf?.headerFooter?.enabled ? '1.5in' : profile.margins?.top || '1in',
         bottom: profile.pdf?.headerFooter?.enabled ? '1.5in' : profile.margins?.bottom || '1in',
@@ -656,21 +827,26 @@ async function generatePdf(html: string, outputPath: string, profile: RenderProf
   }
 }
 
-function generateHeader(profile: RenderProfile): string {
+// The page header: the document title (puppeteer fills in <title>), with the
+// front matter's authors after it.
+function generateHeader(profile: RenderProfile, frontMatter?: FrontMatter): string {
   if (!profile.pdf?.headerFooter?.showTitle) return '<div></div>';
 
+  const authors = frontMatter?.authors.length ? ` — ${escapeHtml(frontMatter.authors.join(', '))}` : '';
   return `
     <div style="font-size: ${profile.pdf?.headerFooter?.fontSize || '9pt'}; width: 100%; text-align: center;">
-      <span class="title"></span>
+      <span class="title"></span>${authors}
     </div>
   `;
 }
 
-function generateFooter(profile: RenderProfile): string {
+// The page footer: the document's date (the front matter's, or today's) and
+// page numbers.
+function generateFooter(profile: RenderProfile, frontMatter?: FrontMatter): string {
   const parts: string[] = [];
 
   if (profile.pdf?.headerFooter?.showDate) {
-    parts.push(`<span>${new Date().toLocaleDateString()}</span>`);
+    parts.push(`<span>${escapeHtml(frontMatter?.date ?? new Date().toLocaleDateString())}</span>`);
   }
 
   if (profile.pdf?.headerFooter?.showPageNumbers) {
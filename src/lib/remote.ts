@@ -0,0 +1,114 @@
+import { loadConfig } from './config.js';
+import { cachedFile } from './cache.js';
+
+/**
+ * Remote images.
+ *
+ * Images with an http(s) source are downloaded when the user opts in
+ * (`remoteImages.enabled` in the config, or `--remote-images` for one run),
+ * and `--offline` keeps them off whatever the config says. Downloads are
+ * bounded by size and time, must be served as an image, and are kept in the
+ * render cache under `remote/`. A copy older than `remoteImages.maxAgeHours`
+ * is fetched again (and still used if that fails), so an image changed
+ * upstream shows up within that time; `mmm cache clear` fetches them all
+ * again. The result is a local file the terminal, PDF and ODT renderers treat
+ * like any other image.
+ */
+
+const DEFAULT_MAX_SIZE_MB = 10;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_AGE_HOURS = 24;
+
+// Accepted content types and the extension the cached file gets.
+const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'image/tiff': 'tiff',
+  'image/bmp': 'bmp'
+};
+
+let override: boolean | undefined;
+
+/** Force remote images on (`--remote-images`) or off (`--offline`) for this process. */
+export function setRemoteImages(enabled: boolean): void {
+  override = enabled;
+}
+
+/** Whether `src` is an http(s) URL. */
+export function isRemoteUrl(src: string): boolean {
+  return /^https?:\/\//i.test(src);
+}
+
+/** Whether http(s) images should be downloaded in this run. */
+export async function remoteImagesEnabled(): Promise<boolean> {
+  if (override !== undefined) return override;
+  return (await loadConfig()).remoteImages?.enabled ?? false;
+}
+
+/**
+ * Download the image at `url` (or reuse the cached copy) and return the path
+ * of the local file. Throws when the server fails, takes too long, sends
+ * something other than an image, or sends more than the size limit.
+ */
+export async function fetchRemoteImage(url: string): Promise<string> {
+  const settings = (await loadConfig()).remoteImages;
+  const maxBytes = (settings?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+  const timeoutMs = settings?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxAgeHours = settings?.maxAgeHours && settings.maxAgeHours > 0 ? settings.maxAgeHours : DEFAULT_MAX_AGE_HOURS;
+  return cachedFile('remote', [url], () => download(url, maxBytes, timeoutMs), maxAgeHours * 60 * 60 * 1000);
+}
+
+async function download(
+  url: string,
+  maxBytes: number,
+  timeoutMs: number
+): Promise<{ data: Buffer; extension: string }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'image/*' } });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const type = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    const extension = IMAGE_TYPES[type];
+    if (!extension) {
+      throw new Error(`not an image (${type || 'no content type'})`);
+    }
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      throw new Error(`larger than ${formatLimit(maxBytes)}`);
+    }
+
+    // Count while reading too: the length header is optional and may lie.
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body?.getReader();
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new Error(`larger than ${formatLimit(maxBytes)}`);
+      }
+      chunks.push(value);
+    }
+    return { data: Buffer.concat(chunks), extension };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`timed out after ${timeoutMs / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function formatLimit(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+}
@@ -0,0 +1,38 @@
+/**
+ * Output sink for the terminal renderer.
+ *
+ * `renderMarkdownDirect` writes prose and rich-media blocks through this
+ * interface instead of straight to stdout, so the same pipeline can stream to
+ * the terminal or fill the in-memory document the pager scrolls through.
+ */
+
+export interface GraphicInfo {
+  /** What produced the block — shown in the pager's placeholder when it can't be drawn. */
+  kind: 'image' | 'mermaid' | 'math' | 'svg';
+  /** Human-readable label (alt text, file name, "Mermaid diagram", …). */
+  label: string;
+}
+
+export interface RenderOutput {
+  /** Styled text (ANSI escapes allowed, no terminal graphics). */
+  write(text: string): void;
+  /** A terminal-graphics block (sixel / kitty / iTerm2), emitted as one unit. */
+  writeGraphic(data: string, info: GraphicInfo): void;
+  /**
+   * Whether terminal graphics may appear inside a line of prose (inline math).
+   * A sink that lays output out by rows can't place those, so it asks for the
+   * Unicode approximation instead.
+   */
+  readonly inlineGraphics: boolean;
+}
+
+/** The default sink: everything goes straight to stdout, in order. */
+export const stdoutOutput: RenderOutput = {
+  write(text: string): void {
+    process.stdout.write(text);
+  },
+  writeGraphic(data: string): void {
+    process.stdout.write(data);
+  },
+  inlineGraphics: true
+};
@@ -0,0 +1,65 @@
+import os from 'os';
+
+/**
+ * Render scheduling shared by the terminal, PDF and ODT pipelines.
+ *
+ * Documents are scanned top to bottom, and each heavy block (diagram, formula,
+ * image) is handed to the scheduler as soon as it's found. Blocks render
+ * concurrently on a bounded pool, while their output is emitted strictly in
+ * the order it was scheduled: each piece is written as soon as it and
+ * everything before it are ready, so the top of a long document appears while
+ * the rest is still rendering.
+ */
+
+// Rendering is mostly rasterization (sharp, on libuv's thread pool) and
+// subprocesses (mmdc, chafa), so a few more tasks than cores keeps them busy.
+function defaultConcurrency(): number {
+  return Math.max(2, Math.min(8, os.availableParallelism()));
+}
+
+export class RenderScheduler {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private readonly concurrency: number = defaultConcurrency()) {}
+
+  /**
+   * Start `task` on the pool and call `emit` with its result once everything
+   * scheduled before it has been emitted. A task that throws stops all later
+   * output; the error surfaces from {@link drain}.
+   */
+  schedule<T>(task: () => Promise<T>, emit: (result: T) => void): void {
+    const result = this.run(task);
+    // Handled through the tail chain; this only keeps an early failure from
+    // being reported as an unhandled rejection before the chain gets to it.
+    result.catch(() => {});
+    this.tail = this.tail.then(() => result).then(emit);
+  }
+
+  /** Queue output that needs no rendering behind everything scheduled so far. */
+  emit(write: () => void): void {
+    this.tail = this.tail.then(write);
+  }
+
+  /** Resolves once everything scheduled so far has been emitted. */
+  drain(): Promise<void> {
+    return this.tail;
+  }
+
+  private async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      // Wait for a finishing task to hand over its slot.
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { parseFrontMatter } from './front-matter.js';
+
+/**
+ * Document outline for `mmm --toc` and `mmm --section`.
+ *
+ * Headings are read straight from the markdown source (ATX `#` headings and
+ * setext underlines, skipping fenced code), so a section can be cut out of
+ * the source and rendered on its own through the normal pipeline.
+ */
+
+export interface Heading {
+  level: number;
+  /** Plain text, inline markdown removed. */
+  text: string;
+  /** Outline number, e.g. "2.1". */
+  number: string;
+  /** Source line where the heading starts. */
+  line: number;
+}
+
+const FENCE_RE = /^\s{0,3}(```|~~~)/;
+const ATX_RE = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_RE = /^\s{0,3}(=+|-+)\s*$/;
+
+/** Heading text as plain text: links reduced to their label, emphasis and code marks dropped. */
+export function plainHeadingText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim();
+}
+
+/**
+ * The anchor a heading gets in rendered markdown (GitHub style): lower case,
+ * punctuation dropped, spaces turned into hyphens.
+ */
+export function headingSlug(text: string): string {
+  return plainHeadingText(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/** All headings in the document, numbered as an outline. */
+export function parseHeadings(markdown: string): Heading[] {
+  const lines = markdown.split('\n');
+  const found: { level: number; text: string; line: number }[] = [];
+  let fence: string | undefined;
+
+  // Front matter isn't part of the outline (its closing `---` would read as a
+  // setext underline).
+  for (let i = parseFrontMatter(markdown).lineCount; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = FENCE_RE.exec(line);
+    if (fenceMatch) {
+      if (fence === undefined) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+      continue;
+    }
+    if (fence !== undefined) continue;
+
+    const atx = ATX_RE.exec(line);
+    if (atx) {
+      found.push({ level: atx[1].length, text: plainHeadingText(atx[2]), line: i });
+      continue;
+    }
+    // Setext: a paragraph line underlined with === (level 1) or --- (level 2).
+    const next = lines[i + 1];
+    if (next !== undefined && line.trim() && !/^\s{4}/.test(line) && SETEXT_RE.test(next) &&
+        !/^\s*([-*+]|\d+[.)])\s/.test(line) && !/^\s*[>|<]/.test(line)) {
+      found.push({ level: next.trim().startsWith('=') ? 1 : 2, text: plainHeadingText(line), line: i });
+      i++;
+    }
+  }
+
+  // Number by nesting rather than by raw level, so a document that starts at
+  // `##`, or skips from `#` to `###`, still gets a 1, 1.1, 1.1.1 outline.
+  const stack: number[] = [];   // levels of the open ancestors
+  const counters: number[] = [];
+  return found.map(({ level, text, line }) => {
+    while (stack.length > 0 && stack[stack.length - 1] >= level) stack.pop();
+    const depth = stack.length;
+    stack.push(level);
+    counters.length = depth + 1;
+    counters[depth] = (counters[depth] ?? 0) + 1;
+    return { level, text, line, number: counters.join('.') };
+  });
+}
+
+/** The outline as indented plain text, one heading per line ("1. Intro", "  1.1 Setup"). */
+export function formatToc(headings: Heading[]): string {
+  return headings
+    .map(h => {
+      const depth = h.number.split('.').length - 1;
+      return `${'  '.repeat(depth)}${h.number}${depth === 0 ? '.' : ''} ${h.text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Find the heading `query` refers to: an outline number ("2.1"), a title
+ * (case-insensitive), or failing that a unique part of a title.
+ */
+export function findHeading(headings: Heading[], query: string): Heading | undefined {
+  const wanted = query.trim().replace(/\.$/, '');
+  const byNumber = headings.find(h => h.number === wanted);
+  if (byNumber) return byNumber;
+
+  const lower = wanted.toLowerCase();
+  const exact = headings.find(h => h.text.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const partial = headings.filter(h => h.text.toLowerCase().includes(lower));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * The markdown of the section `query` names — its heading and everything up
+ * to the next heading at the same or a higher level — or undefined when no
+ * heading matches.
+ */
+export function extractSection(markdown: string, query: string): string | undefined {
+  const headings = parseHeadings(markdown);
+  const heading = findHeading(headings, query);
+  if (!heading) return undefined;
+
+  const lines = markdown.split('\n');
+  const end = headings.find(h => h.line > heading.line && h.level <= heading.level)?.line ?? lines.length;
+  return lines.slice(heading.line, end).join('\n');
+}
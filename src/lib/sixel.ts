@@ -0,0 +1,174 @@
+/**
+ * Built-in sixel encoder (no chafa needed).
+ *
+ * sharp decodes and rasterizes the source (PNG, JPEG, GIF, WebP, SVG) at the
+ * target size and quantizes it to a palette with libimagequant; the indexed
+ * pixels are then written out as sixel bands. Transparent pixels are left
+ * unpainted (P2=1), so diagrams and formulas sit on the terminal background.
+ * Given that background's colour, partly transparent edges are blended onto
+ * it rather than drawn at full strength.
+ */
+
+// Sixel palettes are limited to 256 registers on most terminals.
+const MAX_COLORS = 256;
+
+// Pixels less opaque than this are left transparent.
+const ALPHA_THRESHOLD = 128;
+
+export interface SixelOptions {
+  /** Output size in pixels. */
+  width: number;
+  height: number;
+  /** Rasterization density for vector input (dpi). */
+  density?: number;
+  /** Colour (`#rrggbb`) to blend partly transparent pixels onto. */
+  background?: string;
+}
+
+/** Encode an image file as a sixel sequence of exactly the given pixel size. */
+export async function encodeSixel(imagePath: string, options: SixelOptions): Promise<string> {
+  const { default: sharp } = await import('sharp');
+  const width = Math.max(1, Math.round(options.width));
+  const height = Math.max(1, Math.round(options.height));
+
+  // Resize and quantize in one pass; the palette PNG is decoded back to RGBA
+  // below, where each distinct colour becomes one sixel register.
+  const resized = sharp(imagePath, options.density ? { density: options.density } : {})
+    .resize(width, height, { fit: 'fill' });
+  const background = parseHexColor(options.background);
+  const source = background
+    ? sharp(blendOnto(await resized.ensureAlpha().raw().toBuffer(), background), { raw: { width, height, channels: 4 } })
+    : resized;
+  const quantized = await source
+    .png({ palette: true, colours: MAX_COLORS, dither: 1.0 })
+    .toBuffer();
+  const { data } = await sharp(quantized)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { indices, palette } = indexPixels(data, width * height);
+  return encodeIndexed(indices, palette, width, height);
+}
+
+function parseHexColor(color: string | undefined): [number, number, number] | undefined {
+  const match = /^#([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(color ?? '');
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : undefined;
+}
+
+// Blend the pixels that will be painted onto the background and make them
+// opaque; the rest stay transparent and show the real background.
+function blendOnto(data: Buffer, [r, g, b]: [number, number, number]): Buffer {
+  for (let o = 0; o < data.length; o += 4) {
+    const alpha = data[o + 3];
+    if (alpha < ALPHA_THRESHOLD || alpha === 255) continue;
+    const a = alpha / 255;
+    data[o] = Math.round(data[o] * a + r * (1 - a));
+    data[o + 1] = Math.round(data[o + 1] * a + g * (1 - a));
+    data[o + 2] = Math.round(data[o + 2] * a + b * (1 - a));
+    data[o + 3] = 255;
+  }
+  return data;
+}
+
+// Map RGBA pixels to palette indices (-1 = transparent). The input is already
+// quantized, so it has at most MAX_COLORS colours; anything past that (which
+// libimagequant shouldn't produce) is matched to the nearest register.
+function indexPixels(data: Buffer, pixelCount: number): { indices: Int16Array; palette: number[] } {
+  const indices = new Int16Array(pixelCount);
+  const palette: number[] = [];
+  const lookup = new Map<number, number>();
+
+  for (let p = 0; p < pixelCount; p++) {
+    const o = p * 4;
+    if (data[o + 3] < ALPHA_THRESHOLD) {
+      indices[p] = -1;
+      continue;
+    }
+    const rgb = (data[o] << 16) | (data[o + 1] << 8) | data[o + 2];
+    let index = lookup.get(rgb);
+    if (index === undefined) {
+      index = palette.length < MAX_COLORS ? palette.push(rgb) - 1 : nearestColor(palette, rgb);
+      lookup.set(rgb, index);
+    }
+    indices[p] = index;
+  }
+  return { indices, palette };
+}
+
+function nearestColor(palette: number[], rgb: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const dr = ((palette[i] >> 16) & 0xff) - ((rgb >> 16) & 0xff);
+    const dg = ((palette[i] >> 8) & 0xff) - ((rgb >> 8) & 0xff);
+    const db = (palette[i] & 0xff) - (rgb & 0xff);
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function encodeIndexed(indices: Int16Array, palette: number[], width: number, height: number): string {
+  // P2=1: unpainted pixels stay transparent. The raster attributes declare a
+  // 1:1 pixel aspect and the image size (the pager reads the height from them).
+  const parts: string[] = [`\x1bP0;1q"1;1;${width};${height}`];
+
+  palette.forEach((rgb, i) => {
+    const r = Math.round((((rgb >> 16) & 0xff) * 100) / 255);
+    const g = Math.round((((rgb >> 8) & 0xff) * 100) / 255);
+    const b = Math.round(((rgb & 0xff) * 100) / 255);
+    parts.push(`#${i};2;${r};${g};${b}`);
+  });
+
+  // Each band is six pixel rows. For every colour used in the band, collect
+  // the six-bit column patterns, then emit them run-length encoded; `$`
+  // returns to the start of the band for the next colour, `-` moves down.
+  for (let top = 0; top < height; top += 6) {
+    const columns = new Map<number, Uint8Array>();
+    for (let bit = 0; bit < 6 && top + bit < height; bit++) {
+      const rowStart = (top + bit) * width;
+      for (let x = 0; x < width; x++) {
+        const index = indices[rowStart + x];
+        if (index < 0) continue;
+        let pattern = columns.get(index);
+        if (!pattern) {
+          pattern = new Uint8Array(width);
+          columns.set(index, pattern);
+        }
+        pattern[x] |= 1 << bit;
+      }
+    }
+
+    const band: string[] = [];
+    for (const [index, pattern] of columns) {
+      band.push(`#${index}${runLengthEncode(pattern)}`);
+    }
+    parts.push(band.join('$'));
+    parts.push('-');
+  }
+
+  parts.push('\x1b\\');
+  return parts.join('');
+}
+
+function runLengthEncode(pattern: Uint8Array): string {
+  // Trailing empty columns need not be sent.
+  let end = pattern.length;
+  while (end > 0 && pattern[end - 1] === 0) end--;
+
+  let out = '';
+  let x = 0;
+  while (x < end) {
+    const value = pattern[x];
+    let run = 1;
+    while (x + run < end && pattern[x + run] === value) run++;
+    const char = String.fromCharCode(63 + value);
+    out += run > 3 ? `!${run}${char}` : char.repeat(run);
+    x += run;
+  }
+  return out;
+}
@@ -1,4 +1,5 @@
-import { renderImage } from './image.js';
+import { renderImage, renderImageAsText } from './image.js';
+import type { SymbolStyle } from './symbols.js';
 
 /**
  * Extract SVG content from HTML that might wrap it
@@ -37,6 +38,14 @@ export async function renderEmbeddedSvg(
     height?: number;
     alignment?: 'left' | 'center' | 'right';
     preserveTransparency?: boolean;
+    pixelsPerColumn?: number;
+    maxRows?: number;
+    backend?: 'builtin' | 'chafa';
+    /** Draw with Unicode characters (`text` render mode) instead of terminal graphics. */
+    text?: boolean;
+    symbolStyle?: SymbolStyle;
+    /** Terminal background (`#rrggbb`) to blend semi-transparent edges onto. */
+    background?: string;
   }
 ): Promise<string> {
   // Create a temporary file for the SVG
@@ -62,14 +71,20 @@ export async function renderEmbeddedSvg(
     await fs.writeFile(tempFile, cleanSvg, 'utf-8');
     
     // Use the existing image rendering function
-    const rendered = await renderImage(
-      tempFile,
-      undefined, // maxWidth (deprecated)
-      options?.preserveTransparency ?? false, // preserveTransparency
-      undefined, // backend (only chafa supported)
-      options?.alignment,
-      options?.width // widthPercent
-    );
+    const rendered = options?.text
+      ? await renderImageAsText(tempFile, options.alignment, options.width, options.maxRows, options.symbolStyle)
+      : await renderImage(
+        tempFile,
+        undefined, // maxWidth (deprecated)
+        options?.preserveTransparency ?? false, // preserveTransparency
+        options?.backend,
+        options?.alignment,
+        options?.width, // widthPercent
+        options?.pixelsPerColumn,
+        options?.maxRows,
+        options?.symbolStyle,
+        options?.background
+      );
     
     // Clean up temp file
     await fs.unlink(tempFile).catch(() => {});
@@ -0,0 +1,237 @@
+/**
+ * Character-cell image renderer: draws an image with Unicode block or braille
+ * characters in ANSI colour, for terminals without a pixel graphics protocol
+ * and for `text` render mode (the output survives pipes, `less -R` and
+ * scrollback).
+ *
+ * Each cell samples a small block of pixels — 1×2 for half blocks, 2×2 for
+ * quadrants, 2×4 for braille — and picks a glyph and colours for it.
+ * Transparent pixels show the terminal's own background.
+ */
+
+export type SymbolStyle = 'half' | 'quadrant' | 'braille';
+
+export interface SymbolOptions {
+  /** Size of the drawing in terminal cells. */
+  columns: number;
+  rows: number;
+  style?: SymbolStyle;
+  /** Columns of spaces before each line (alignment). */
+  indent?: number;
+  /** Rasterization density for vector input (dpi). */
+  density?: number;
+}
+
+// Pixels less opaque than this are treated as transparent.
+const ALPHA_THRESHOLD = 128;
+
+const CELL_PIXELS: Record<SymbolStyle, { width: number; height: number }> = {
+  half: { width: 1, height: 2 },
+  quadrant: { width: 2, height: 2 },
+  braille: { width: 2, height: 4 }
+};
+
+// Quadrant glyphs indexed by mask: upper-left 1, upper-right 2, lower-left 4, lower-right 8.
+const QUADRANTS = ' ▘▝▀▖▌▞▛▗▚▐▜▄▙▟█';
+
+// Braille dot bit for each pixel of the 2×4 cell, row by row.
+const BRAILLE_DOTS = [0x01, 0x08, 0x02, 0x10, 0x04, 0x20, 0x40, 0x80];
+
+type Rgb = [number, number, number];
+
+/** Render an image file as coloured character cells, one line per row. */
+export async function renderSymbols(imagePath: string, options: SymbolOptions): Promise<string> {
+  const { default: sharp } = await import('sharp');
+  const style = options.style ?? 'half';
+  const cell = CELL_PIXELS[style];
+  const width = Math.max(1, Math.round(options.columns)) * cell.width;
+  const height = Math.max(1, Math.round(options.rows)) * cell.height;
+
+  const { data } = await sharp(imagePath, options.density ? { density: options.density } : {})
+    .resize(width, height, { fit: 'fill' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // A pixel's colour, or null when it's transparent.
+  const pixel = (x: number, y: number): Rgb | null => {
+    const o = (y * width + x) * 4;
+    return data[o + 3] < ALPHA_THRESHOLD ? null : [data[o], data[o + 1], data[o + 2]];
+  };
+
+  const painter = new Painter(colorDepth());
+  const pad = ' '.repeat(Math.max(0, options.indent ?? 0));
+  const lines: string[] = [];
+
+  for (let cy = 0; cy < height; cy += cell.height) {
+    let line = pad;
+    for (let cx = 0; cx < width; cx += cell.width) {
+      const block: (Rgb | null)[] = [];
+      for (let dy = 0; dy < cell.height; dy++) {
+        for (let dx = 0; dx < cell.width; dx++) block.push(pixel(cx + dx, cy + dy));
+      }
+      line += style === 'half' ? painter.half(block)
+        : style === 'quadrant' ? painter.quadrant(block)
+        : painter.braille(block);
+    }
+    lines.push(line + painter.reset());
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Truecolor when the terminal advertises it, 256 colours otherwise.
+function colorDepth(): 'truecolor' | '256' {
+  const colorterm = process.env.COLORTERM ?? '';
+  return /truecolor|24bit/i.test(colorterm) ? 'truecolor' : '256';
+}
+
+/**
+ * Turns pixel blocks into glyphs with SGR colours, only emitting a colour
+ * change when it differs from the previous cell's.
+ */
+class Painter {
+  private fg: string | null = null;
+  private bg: string | null = null;
+
+  constructor(private readonly depth: 'truecolor' | '256') {}
+
+  // Upper pixel as foreground of '▀', lower as background.
+  half([top, bottom]: (Rgb | null)[]): string {
+    if (!top && !bottom) return this.paint(null, null, ' ');
+    if (!top) return this.paint(bottom, null, '▄');
+    return this.paint(top, bottom, '▀');
+  }
+
+  // Split the four pixels into two colour groups and draw the matching quadrant.
+  quadrant(block: (Rgb | null)[]): string {
+    const opaque = block.filter((p): p is Rgb => p !== null);
+    if (opaque.length === 0) return this.paint(null, null, ' ');
+
+    // Seed the groups with the two most different pixels (transparency
+    // counts as its own colour), then assign each pixel to the nearer seed.
+    let seedA: Rgb | null = opaque[0];
+    let seedB: Rgb | null = null;
+    let spread = -1;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const d = difference(block[i], block[j]);
+        if (d > spread) {
+          spread = d;
+          seedA = block[i];
+          seedB = block[j];
+        }
+      }
+    }
+    if (spread === 0) return this.paint(opaque[0], null, '█');
+
+    let mask = 0;
+    const fgPixels: (Rgb | null)[] = [];
+    const bgPixels: (Rgb | null)[] = [];
+    block.forEach((p, i) => {
+      if (difference(p, seedA) <= difference(p, seedB)) {
+        mask |= 1 << i;
+        fgPixels.push(p);
+      } else {
+        bgPixels.push(p);
+      }
+    });
+
+    // The glyph's foreground must be an actual colour; swap if needed.
+    let fgColor = average(fgPixels);
+    let bgColor = average(bgPixels);
+    if (!fgColor) {
+      mask ^= 0xf;
+      [fgColor, bgColor] = [bgColor, fgColor];
+    }
+    return this.paint(fgColor, bgColor, QUADRANTS[mask]);
+  }
+
+  // Dots for pixels that stand out — opaque ones on a transparent image,
+  // otherwise the brighter half — in their average colour.
+  braille(block: (Rgb | null)[]): string {
+    const opaque = block.filter((p): p is Rgb => p !== null);
+    if (opaque.length === 0) return this.paint(null, null, ' ');
+
+    let on: boolean[];
+    if (opaque.length < block.length) {
+      on = block.map(p => p !== null);
+    } else {
+      const levels = opaque.map(luminance);
+      const mean = levels.reduce((a, b) => a + b, 0) / levels.length;
+      on = levels.map(l => l >= mean);
+    }
+
+    let bits = 0;
+    const dots: Rgb[] = [];
+    on.forEach((isOn, i) => {
+      if (isOn) {
+        bits |= BRAILLE_DOTS[i];
+        dots.push(block[i] as Rgb);
+      }
+    });
+    return this.paint(average(dots), null, String.fromCharCode(0x2800 + bits));
+  }
+
+  reset(): string {
+    if (this.fg === null && this.bg === null) return '';
+    this.fg = null;
+    this.bg = null;
+    return '\x1b[0m';
+  }
+
+  private paint(fg: Rgb | null, bg: Rgb | null, glyph: string): string {
+    const fgCode = fg ? this.color(fg, 38) : null;
+    const bgCode = bg ? this.color(bg, 48) : null;
+    let out = '';
+    // Going back to a default colour needs a reset, which clears both.
+    if ((fgCode === null && this.fg !== null) || (bgCode === null && this.bg !== null)) {
+      out += this.reset();
+    }
+    if (fgCode !== null && fgCode !== this.fg) out += fgCode;
+    if (bgCode !== null && bgCode !== this.bg) out += bgCode;
+    this.fg = fgCode;
+    this.bg = bgCode;
+    return out + glyph;
+  }
+
+  private color([r, g, b]: Rgb, layer: 38 | 48): string {
+    return this.depth === 'truecolor'
+      ? `\x1b[${layer};2;${r};${g};${b}m`
+      : `\x1b[${layer};5;${ansi256(r, g, b)}m`;
+  }
+}
+
+// Nearest colour in the xterm 256-colour palette: the 6×6×6 cube or the
+// 24-step grey ramp, whichever is closer.
+function ansi256(r: number, g: number, b: number): number {
+  const level = (v: number): number => (v < 48 ? 0 : v < 115 ? 1 : Math.floor((v - 35) / 40));
+  const cubeValue = (l: number): number => (l === 0 ? 0 : 55 + l * 40);
+  const [cr, cg, cb] = [level(r), level(g), level(b)];
+  const cubeIndex = 16 + 36 * cr + 6 * cg + cb;
+  const cubeError = difference([r, g, b], [cubeValue(cr), cubeValue(cg), cubeValue(cb)]);
+
+  const grey = Math.round((r + g + b) / 3);
+  const greyLevel = Math.max(0, Math.min(23, Math.round((grey - 8) / 10)));
+  const greyValue = 8 + greyLevel * 10;
+  const greyError = difference([r, g, b], [greyValue, greyValue, greyValue]);
+
+  return greyError < cubeError ? 232 + greyLevel : cubeIndex;
+}
+
+function luminance([r, g, b]: Rgb): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// Squared distance between two colours; transparency is far from everything.
+function difference(a: Rgb | null, b: Rgb | null): number {
+  if (!a || !b) return a === b ? 0 : 3 * 255 * 255 + 1;
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+// Mean of the opaque pixels, or null when there are none.
+function average(pixels: (Rgb | null)[]): Rgb | null {
+  const opaque = pixels.filter((p): p is Rgb => p !== null);
+  if (opaque.length === 0) return null;
+  const sum = opaque.reduce<Rgb>((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return sum.map(v => Math.round(v / opaque.length)) as Rgb;
+}
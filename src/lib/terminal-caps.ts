@@ -0,0 +1,232 @@
+import fs from 'fs';
+import tty from 'tty';
+
+/**
+ * Terminal capability probe.
+ *
+ * Environment variables only identify a handful of terminals (and lie over SSH
+ * or inside multiplexers), so instead we ask the terminal itself:
+ *
+ *  - the kitty graphics query (`a=q`) — answered only by kitty-protocol terminals
+ *  - XTSMGRAPHICS (`CSI ? 2 ; 1 ; 0 S`) — sixel geometry, sixel terminals only
+ *  - XTVERSION (`CSI > 0 q`) — terminal name and version, where supported
+ *  - XTWINOPS `CSI 16 t` / `CSI 14 t` — cell size, or text area size, in pixels
+ *  - OSC 11 (`OSC 11 ; ? ST`) — the background colour
+ *  - DA1 (`CSI c`) — answered by every terminal; attribute 4 means sixel
+ *
+ * DA1 goes last: terminals answer in order, so its reply marks the end of the
+ * batch and we don't have to wait out the timeout for queries a terminal
+ * silently ignores.
+ */
+
+export type GraphicsProtocol = 'kitty' | 'iterm' | 'sixel' | 'symbols';
+
+export interface CellSize {
+  width: number;
+  height: number;
+}
+
+export interface TerminalCapabilities {
+  /** The protocol images should be drawn with. */
+  protocol: GraphicsProtocol;
+  sixel: boolean;
+  kitty: boolean;
+  iterm: boolean;
+  /** Maximum sixel image size in pixels, when the terminal reports it. */
+  sixelGeometry?: { width: number; height: number };
+  /** Name and version from XTVERSION, when the terminal reports it. */
+  terminalName?: string;
+  /** Size of one character cell in pixels, when the terminal reports it. */
+  cellSize?: CellSize;
+  /** Background colour (`#rrggbb`) from OSC 11, when the terminal reports it. */
+  background?: string;
+  /** False when the terminal couldn't be asked and the result is a guess from the environment. */
+  probed: boolean;
+}
+
+// Long enough for a terminal across an SSH link; terminals that answer DA1
+// (nearly all of them) end the wait much sooner.
+const QUERY_TIMEOUT_MS = 500;
+
+const KITTY_QUERY = '\x1b_Gi=31,s=1,v=1,a=q,t=d,f=24;AAAA\x1b\\';
+const XTSMGRAPHICS_QUERY = '\x1b[?2;1;0S';
+const XTVERSION_QUERY = '\x1b[>0q';
+const CELL_SIZE_QUERY = '\x1b[16t';
+const TEXT_AREA_QUERY = '\x1b[14t';
+const BACKGROUND_QUERY = '\x1b]11;?\x1b\\';
+const DA1_QUERY = '\x1b[c';
+
+const DA1_REPLY_RE = /\x1b\[\?([\d;]*)c/;
+// `rgb:RRRR/GGGG/BBBB`, with 1 to 4 hex digits per channel.
+const BACKGROUND_REPLY_RE = /\x1b\]11;rgb:([\da-f]{1,4})\/([\da-f]{1,4})\/([\da-f]{1,4})(?:\x07|\x1b\\)/i;
+
+// Queries share the terminal's input, so they run one at a time.
+let queryQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Write `query` to the controlling terminal and collect what it answers until
+ * `isComplete` accepts the reply or the timeout passes. Resolves to '' when
+ * there is no terminal to ask (output piped, no /dev/tty).
+ *
+ * The terminal is put in raw mode for the duration so replies aren't echoed
+ * or line-buffered. Callers should query once per process, before anything
+ * else (the pager) starts reading keys.
+ */
+export function queryTerminal(
+  query: string,
+  isComplete: (reply: string) => boolean,
+  timeoutMs: number = QUERY_TIMEOUT_MS
+): Promise<string> {
+  const run = queryQueue.then(() => runQuery(query, isComplete, timeoutMs));
+  queryQueue = run.catch(() => undefined);
+  return run;
+}
+
+function runQuery(query: string, isComplete: (reply: string) => boolean, timeoutMs: number): Promise<string> {
+  if (!process.stdout.isTTY) return Promise.resolve('');
+
+  let fd: number;
+  try {
+    fd = fs.openSync('/dev/tty', 'r+');
+  } catch {
+    return Promise.resolve('');
+  }
+
+  const input = new tty.ReadStream(fd);
+  input.setRawMode(true);
+
+  return new Promise((resolve) => {
+    let reply = '';
+    const finish = (): void => {
+      clearTimeout(timer);
+      input.off('data', onData);
+      input.setRawMode(false);
+      input.destroy();
+      resolve(reply);
+    };
+    const onData = (chunk: Buffer): void => {
+      reply += chunk.toString('latin1');
+      if (isComplete(reply)) finish();
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    input.on('data', onData);
+    try {
+      fs.writeSync(fd, query);
+    } catch {
+      finish();
+    }
+  });
+}
+
+// Interpret the replies to the probe batch.
+function parseCapabilities(reply: string): TerminalCapabilities {
+  const da1 = DA1_REPLY_RE.exec(reply);
+  const attributes = da1 ? da1[1].split(';') : [];
+  const kitty = /\x1b_Gi=31;OK\x1b\\/.test(reply);
+  const geometry = /\x1b\[\?2;0;(\d+);(\d+)S/.exec(reply);
+  const version = /\x1bP>\|([^\x1b]*)\x1b\\/.exec(reply);
+  const terminalName = version?.[1].trim() || undefined;
+  const cell = /\x1b\[6;(\d+);(\d+)t/.exec(reply);
+  const area = /\x1b\[4;(\d+);(\d+)t/.exec(reply);
+  const background = BACKGROUND_REPLY_RE.exec(reply);
+  const sixel = attributes.includes('4') || Boolean(geometry);
+  // iTerm2 has no feature query; it identifies itself through XTVERSION.
+  const iterm = /^iTerm2\b/.test(terminalName ?? '') || process.env.TERM_PROGRAM === 'iTerm.app';
+
+  return {
+    protocol: kitty ? 'kitty' : iterm ? 'iterm' : sixel ? 'sixel' : 'symbols',
+    sixel,
+    kitty,
+    iterm,
+    sixelGeometry: geometry ? { width: Number(geometry[1]), height: Number(geometry[2]) } : undefined,
+    terminalName,
+    cellSize: cell
+      ? validCellSize(Number(cell[2]), Number(cell[1]))
+      : area && process.stdout.columns && process.stdout.rows
+        // Only the text area is known; divide it by the grid size.
+        ? validCellSize(Number(area[2]) / process.stdout.columns, Number(area[1]) / process.stdout.rows)
+        : undefined,
+    background: background
+      ? '#' + background.slice(1, 4).map(channel => scaleChannel(channel)).join('')
+      : undefined,
+    probed: true
+  };
+}
+
+// An OSC 11 channel (`f`, `ff`, `fff` or `ffff`) as two hex digits.
+function scaleChannel(hex: string): string {
+  const value = parseInt(hex, 16) / (16 ** hex.length - 1);
+  return Math.round(value * 255).toString(16).padStart(2, '0');
+}
+
+// Some terminals answer the size queries with zeros (or absurd values) when
+// they don't know; treat those as unknown.
+function validCellSize(width: number, height: number): CellSize | undefined {
+  if (!(width >= 2 && width <= 200 && height >= 4 && height <= 400)) return undefined;
+  return { width, height };
+}
+
+// Without a terminal to ask, fall back to what the environment says.
+function guessCapabilities(): TerminalCapabilities {
+  const { TERM, TERM_PROGRAM, KITTY_WINDOW_ID } = process.env;
+  const iterm = TERM_PROGRAM === 'iTerm.app';
+  const kitty = Boolean(KITTY_WINDOW_ID) ||
+    TERM_PROGRAM === 'WezTerm' || TERM_PROGRAM === 'ghostty' ||
+    TERM === 'xterm-kitty' || TERM === 'xterm-ghostty';
+  return {
+    protocol: iterm ? 'iterm' : kitty ? 'kitty' : 'sixel',
+    sixel: !iterm && !kitty,
+    kitty,
+    iterm,
+    probed: false
+  };
+}
+
+let capabilities: Promise<TerminalCapabilities> | undefined;
+
+/**
+ * Which graphics protocols the terminal on stdout supports. The terminal is
+ * probed once per process; later calls return the same result.
+ */
+export function detectTerminalCapabilities(): Promise<TerminalCapabilities> {
+  capabilities ??= (async () => {
+    const reply = await queryTerminal(
+      KITTY_QUERY + XTSMGRAPHICS_QUERY + XTVERSION_QUERY + CELL_SIZE_QUERY + TEXT_AREA_QUERY + BACKGROUND_QUERY +
+        DA1_QUERY,
+      r => DA1_REPLY_RE.test(r)
+    );
+    return DA1_REPLY_RE.test(reply) ? parseCapabilities(reply) : guessCapabilities();
+  })();
+  return capabilities;
+}
+
+export type ColorScheme = 'light' | 'dark';
+
+export interface TerminalBackground {
+  scheme: ColorScheme;
+  /** The exact colour (`#rrggbb`), when the terminal reported it. */
+  color?: string;
+}
+
+/**
+ * Whether the terminal has a light or a dark background: asked with OSC 11
+ * on a terminal, otherwise read from `COLORFGBG` (set by rxvt, Konsole and
+ * others as `fg;bg` colour numbers). Undefined when neither says.
+ */
+export async function detectTerminalBackground(): Promise<TerminalBackground | undefined> {
+  const { background } = await detectTerminalCapabilities();
+  if (background) {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(background.slice(i, i + 2), 16) / 255);
+    // Light when lighter than mid grey: a relative luminance above 0.18.
+    const linear = (c: number): number => c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    const luminance = 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+    return { scheme: luminance > 0.18 ? 'light' : 'dark', color: background };
+  }
+
+  // The last field is the background: 7 (light grey) and 9–15 (the bright
+  // colours but black's) are light, 0–6 and 8 dark. `default` says nothing.
+  const bg = process.env.COLORFGBG?.split(';').pop();
+  if (bg === undefined || !/^\d+$/.test(bg)) return undefined;
+  const index = Number(bg);
+  return { scheme: index === 7 || (index >= 9 && index <= 15) ? 'light' : 'dark' };
+}
@@ -0,0 +1,219 @@
+import chalk from 'chalk';
+import { displayWidth, truncate, wrapText } from './terminal-text.js';
+
+/**
+ * Tables in the terminal.
+ *
+ * Columns are sized from what's in them: each gets the room its longest line
+ * needs if the table fits, and otherwise at least its longest word, with the
+ * rest of the width shared out in proportion to how much more each column
+ * would like. Cells are aligned as the table's delimiter row says
+ * (`:---:`, `---:`), and widths are measured the way a terminal draws text:
+ * colours and hyperlinks take no room, CJK characters and emoji take two
+ * columns.
+ */
+
+export type ColumnAlign = 'left' | 'center' | 'right' | null;
+
+/**
+ * `grid` draws rows and columns, `records` draws each row as a card of
+ * "header: value" lines, and `auto` picks records for tables too wide for a
+ * grid.
+ */
+export type TableLayout = 'auto' | 'grid' | 'records';
+
+type Style = (text: string) => string;
+
+export interface TableContent {
+  /** The rendered header cells. */
+  header: string[];
+  /** The rendered body cells, row by row. */
+  rows: string[][];
+  align: ColumnAlign[];
+}
+
+export interface TableOptions {
+  /** Columns the table may take up, borders included. */
+  width: number;
+  layout?: TableLayout;
+  /** Wrap long cells onto more lines; otherwise they're cut short with `…`. */
+  wordWrap?: boolean;
+  /** Wrap between words where possible, rather than at the column edge. */
+  wrapOnWordBoundary?: boolean;
+  head?: Style;
+  border?: Style;
+}
+
+// A column can't get narrower than this, however many there are.
+const MIN_COLUMN_WIDTH = 3;
+
+// In the `auto` layout, a grid must give every column this many columns (or
+// its longest word, if that's shorter); a table that can't is shown as records.
+const GRID_COLUMN_WIDTH = 10;
+
+/**
+ * Draw a table with borders, in the layout `options` asks for: a grid with a
+ * highlighted header and a rule between rows, or a card per row.
+ */
+export function formatTable(table: TableContent, options: TableOptions): string {
+  const available = options.width - (table.header.length * 3 + 1);
+  const layout = options.layout ?? 'auto';
+  if (layout === 'records' || (layout === 'auto' && table.rows.length > 0 && !fitsAsGrid(table, available))) {
+    return formatRecords(table, options);
+  }
+
+  const widths = columnWidths([table.header, ...table.rows], available);
+  const rule = ruler(widths, options);
+  return [
+    rule('┌', '┬', '┐'),
+    ...drawRow(table.header, widths, table.align, options, options.head ?? chalk.cyan.bold),
+    ...table.rows.flatMap(cells => [rule('├', '┼', '┤'), ...drawRow(cells, widths, table.align, options)]),
+    rule('└', '┴', '┘')
+  ].join('\n');
+}
+
+// Each row as a card: the headers down the left, the row's values beside
+// them, and a rule between cards.
+function formatRecords(table: TableContent, options: TableOptions): string {
+  const available = Math.max(options.width - 7, MIN_COLUMN_WIDTH * 2);
+  const labels = table.header.map(header => header.replace(/\n/g, ' '));
+  const labelWidth = Math.min(
+    Math.max(...labels.map(displayWidth), 1),
+    Math.max(MIN_COLUMN_WIDTH, Math.floor(available / 3))
+  );
+  const widest = Math.max(1, ...table.rows.flatMap(row => row.flatMap(cell => cell.split('\n').map(displayWidth))));
+  const widths = [labelWidth, Math.max(Math.min(widest, available - labelWidth), MIN_COLUMN_WIDTH)];
+  const rule = ruler(widths, options);
+  const head = options.head ?? chalk.cyan.bold;
+
+  const record = (cells: string[]): string[] => labels.flatMap((label, i) => {
+    const name = fitCell(label, widths[0], options);
+    const value = fitCell(cells[i] ?? '', widths[1], options);
+    return Array.from({ length: Math.max(name.length, value.length) }, (_, line) =>
+      drawLine([name[line] ?? '', value[line] ?? ''], widths, [null, null], options, [head, undefined]));
+  });
+  return [
+    rule('┌', '┬', '┐'),
+    ...table.rows.flatMap((cells, i) => [...(i > 0 ? [rule('├', '┼', '┤')] : []), ...record(cells)]),
+    rule('└', '┴', '┘')
+  ].join('\n');
+}
+
+// Whether `table` can be a grid in `available` columns without squeezing any
+// column below GRID_COLUMN_WIDTH.
+function fitsAsGrid(table: TableContent, available: number): boolean {
+  const { longestWord } = measure([table.header, ...table.rows]);
+  return longestWord.reduce((sum, width) => sum + Math.min(width, GRID_COLUMN_WIDTH), 0) <= available;
+}
+
+// A horizontal border for columns `widths` wide.
+function ruler(widths: number[], options: TableOptions): (left: string, middle: string, right: string) => string {
+  const border = options.border ?? chalk.gray;
+  return (left, middle, right) => border(left + widths.map(width => '─'.repeat(width + 2)).join(middle) + right);
+}
+
+// The lines of a row, its cells wrapped to `widths`.
+function drawRow(
+  cells: string[],
+  widths: number[],
+  align: ColumnAlign[],
+  options: TableOptions,
+  style?: Style
+): string[] {
+  const columns = widths.map((width, i) => fitCell(cells[i] ?? '', width, options));
+  const height = Math.max(...columns.map(lines => lines.length));
+  return Array.from({ length: height }, (_, line) =>
+    drawLine(columns.map(lines => lines[line] ?? ''), widths, align, options, columns.map(() => style)));
+}
+
+function drawLine(
+  texts: string[],
+  widths: number[],
+  align: ColumnAlign[],
+  options: TableOptions,
+  styles: (Style | undefined)[]
+): string {
+  const border = options.border ?? chalk.gray;
+  return border('│') + widths.map((width, i) => {
+    const text = alignText(texts[i], width, align[i]);
+    const style = styles[i];
+    return ` ${style ? style(text) : text} `;
+  }).join(border('│')) + border('│');
+}
+
+/**
+ * Widths for the columns of `rows` (header first) sharing `available`
+ * columns of text. A table that fits is as wide as its content and no wider.
+ */
+export function columnWidths(rows: string[][], available: number): number[] {
+  const { wanted, longestWord } = measure(rows);
+
+  const sum = (widths: number[]): number => widths.reduce((total, width) => total + width, 0);
+  if (sum(wanted) <= available) {
+    return wanted;
+  }
+  // Each column gets its longest word, except that the longest words (a URL,
+  // say) are cut down until they leave room for the rest.
+  let cap = Math.max(...longestWord);
+  while (cap > MIN_COLUMN_WIDTH && sum(longestWord.map(width => Math.min(width, cap))) > available) cap--;
+  const minimum = longestWord.map(width => Math.min(width, cap));
+  if (sum(minimum) <= available) {
+    // What's left goes to the columns that want more, in proportion to how
+    // much more.
+    const extra = wanted.map((width, i) => width - minimum[i]);
+    return share(minimum, extra, available - sum(minimum));
+  }
+  // Not even that fits: every column gets as little as it can do with.
+  return minimum;
+}
+
+// The width each column's longest line and longest word take up.
+function measure(rows: string[][]): { wanted: number[]; longestWord: number[] } {
+  const count = Math.max(...rows.map(row => row.length));
+  const wanted = new Array<number>(count).fill(1);
+  const longestWord = new Array<number>(count).fill(1);
+  for (const row of rows) {
+    row.forEach((cell, i) => {
+      for (const line of cell.split('\n')) {
+        wanted[i] = Math.max(wanted[i], displayWidth(line));
+        for (const word of line.split(/\s+/)) {
+          longestWord[i] = Math.max(longestWord[i], displayWidth(word));
+        }
+      }
+    });
+  }
+  return { wanted, longestWord };
+}
+
+// `base` plus `spare` columns divided in proportion to `weights`, remainders
+// going to the largest fractions.
+function share(base: number[], weights: number[], spare: number): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return base;
+  const exact = weights.map(weight => weight * Math.min(spare, total) / total);
+  const widths = base.map((width, i) => width + Math.floor(exact[i]));
+  let left = Math.min(spare, total) - exact.reduce((sum, part) => sum + Math.floor(part), 0);
+  const order = exact.map((_part, i) => i).sort((a, b) => (exact[b] % 1) - (exact[a] % 1));
+  for (const i of order) {
+    if (left <= 0) break;
+    widths[i]++;
+    left--;
+  }
+  return widths;
+}
+
+function alignText(text: string, width: number, align: ColumnAlign): string {
+  const gap = Math.max(width - displayWidth(text), 0);
+  if (align === 'right') return ' '.repeat(gap) + text;
+  if (align === 'center') return ' '.repeat(Math.floor(gap / 2)) + text + ' '.repeat(Math.ceil(gap / 2));
+  return text + ' '.repeat(gap);
+}
+
+// The lines of a cell in a column `width` wide.
+function fitCell(cell: string, width: number, options: TableOptions): string[] {
+  const lines = cell.split('\n');
+  if (options.wordWrap === false) {
+    return lines.map(line => truncate(line, width));
+  }
+  return wrapText(cell, width, options.wrapOnWordBoundary !== false);
+}
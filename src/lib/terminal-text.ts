@@ -0,0 +1,142 @@
+import stringWidth from 'string-width';
+
+/**
+ * Text the way a terminal draws it.
+ *
+ * Widths are counted in terminal columns: colours and hyperlinks take no
+ * room, CJK characters and emoji take two. Wrapping and truncating work on
+ * grapheme clusters, so a character is never split, and keep the escape
+ * sequences in the text intact.
+ */
+
+// Colours, OSC 8 hyperlinks, and the hyperlink placeholders (links.ts) that
+// are still in the text while it's laid out.
+const ESCAPE_RE = /\x1b\[[0-9;]*m|\x1b\]8;[^\x07\x1b]*(?:\x07|\x1b\\)|[\uE000\uE001]/g;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/** The number of terminal columns `text` takes up. */
+export function displayWidth(text: string): number {
+  return stringWidth(text.replace(ESCAPE_RE, ''));
+}
+
+/**
+ * Wrap `text` to lines at most `width` columns wide, between words unless
+ * `wordBoundary` is false, breaking words that are too long on their own.
+ * Each line opens and closes its own styles, so it can be framed.
+ */
+export function wrapText(text: string, width: number, wordBoundary = true): string[] {
+  return restyle(text.split('\n').flatMap(line => wrap(line, width, wordBoundary)));
+}
+
+interface Piece {
+  text: string;
+  width: number;
+  /** An escape sequence or placeholder, which takes no room. */
+  code?: boolean;
+}
+
+// `text` as escape sequences and the characters (grapheme clusters) between.
+function pieces(text: string): Piece[] {
+  const result: Piece[] = [];
+  let at = 0;
+  const addText = (part: string): void => {
+    for (const { segment } of graphemes.segment(part)) {
+      result.push({ text: segment, width: stringWidth(segment) });
+    }
+  };
+  for (const match of text.matchAll(ESCAPE_RE)) {
+    addText(text.slice(at, match.index));
+    result.push({ text: match[0], width: 0, code: true });
+    at = match.index + match[0].length;
+  }
+  addText(text.slice(at));
+  return result;
+}
+
+// Wrap a line to `width` columns, between words if `wordBoundary` allows,
+// breaking words that are too long on their own.
+function wrap(text: string, width: number, wordBoundary: boolean): string[] {
+  const lines: Piece[][] = [];
+  let line: Piece[] = [];
+  let used = 0;
+  for (const piece of pieces(text)) {
+    if (piece.code) {
+      line.push(piece);
+      continue;
+    }
+    if (piece.text === ' ' && used === 0 && lines.length > 0) continue;
+    if (used + piece.width > width && used > 0) {
+      // Carry the word being written over to the next line, if there's an
+      // earlier space to break at.
+      let space = -1;
+      if (wordBoundary && piece.text !== ' ') {
+        for (let i = line.length - 1; i > 0 && space < 0; i--) {
+          if (line[i].text === ' ') space = i;
+        }
+      }
+      const carried = space >= 0 ? line.splice(space) : [];
+      lines.push(line);
+      line = carried.filter((part, i) => part.code || i > 0);
+      used = line.reduce((sum, part) => sum + part.width, 0);
+      if (piece.text === ' ') continue;
+    }
+    line.push(piece);
+    used += piece.width;
+  }
+  lines.push(line);
+  return lines.map(parts => parts.map(part => part.text).join('').replace(/ +$/, ''));
+}
+
+/** Cut `text` to `width` columns, ending it with an ellipsis if it was cut. */
+export function truncate(text: string, width: number): string {
+  if (displayWidth(text) <= width) return text;
+  let result = '';
+  let used = 0;
+  let full = false;
+  for (const piece of pieces(text)) {
+    // Past the cut only the escapes are kept, to close what was opened.
+    full ||= !piece.code && used + piece.width > width - 1;
+    if (full && !piece.code) continue;
+    result += piece.text;
+    used += piece.width;
+  }
+  return result + '…';
+}
+
+// SGR parameters that end an attribute, and the ones each ends.
+const SGR_CLOSERS: Record<string, RegExp> = {
+  '22': /^[12]$/,
+  '23': /^3$/,
+  '24': /^4$/,
+  '27': /^7$/,
+  '28': /^8$/,
+  '29': /^9$/,
+  '39': /^(?:3[0-7]|38;.*|9[0-7])$/,
+  '49': /^(?:4[0-7]|48;.*|10[0-7])$/
+};
+
+// Make each wrapped line stand on its own: styles and hyperlinks still open
+// at the end of a line are closed there and opened again at the start of the
+// next, so the border between doesn't pick them up.
+function restyle(lines: string[]): string[] {
+  let open: string[] = [];
+  let link: string | undefined;
+  return lines.map(line => {
+    const prefix = open.map(params => `\x1b[${params}m`).join('') + (link ?? '');
+    for (const [code, params, url] of line.matchAll(/\x1b\[([0-9;]*)m|\x1b\]8;[^;\x07\x1b]*;([^\x07\x1b]*)(?:\x07|\x1b\\)/g)) {
+      if (params === undefined) {
+        link = url ? code : undefined;
+      } else if (params === '' || params === '0') {
+        open = [];
+      } else if (SGR_CLOSERS[params]) {
+        open = open.filter(opened => !SGR_CLOSERS[params].test(opened));
+      } else {
+        open.push(params);
+      }
+    }
+    const close = open.map(opened =>
+      Object.keys(SGR_CLOSERS).find(closer => SGR_CLOSERS[closer].test(opened)) ?? '0');
+    return prefix + line + [...new Set(close)].map(params => `\x1b[${params}m`).join('') + (link ? '\x1b]8;;\x1b\\' : '');
+  });
+}
@@ -0,0 +1,328 @@
+import type { RenderProfile } from './config.js';
+import { defaultSyntaxTheme, parseStyle, type SyntaxTheme } from './terminal-syntax-highlighter.js';
+
+/**
+ * Colour themes for the terminal.
+ *
+ * A theme styles the prose (headings, emphasis, inline code, blockquotes,
+ * links, footnote markers, image captions), tables, admonition boxes, the
+ * front matter card and code. Styles are written like syntax theme entries:
+ * chalk modifiers and colours, `#rrggbb`, and `bg:` for backgrounds. The
+ * profile picks a theme with `terminal.colorTheme` (by default the one
+ * matching its `theme`), and can override single elements with
+ * `terminal.colors` and code scopes with `terminal.syntaxTheme`.
+ */
+
+export type TerminalThemeName = 'dark' | 'light' | 'solarized' | 'high-contrast';
+
+/**
+ * The elements a theme styles outside code: marked-terminal's own (named as
+ * it names them), then ours. An admonition kind styles its box's frame and
+ * title, `card*` the parts of the front matter card.
+ */
+export type ProseElement =
+  | 'firstHeading' | 'heading' | 'strong' | 'em' | 'del' | 'codespan'
+  | 'blockquote' | 'html' | 'link' | 'href' | 'tableHead' | 'tableBorder'
+  | 'footnote' | 'caption'
+  | 'note' | 'tip' | 'important' | 'warning' | 'caution'
+  | 'cardTitle' | 'cardMeta' | 'cardDescription' | 'cardTags' | 'cardBorder';
+
+export type TerminalTheme = Record<ProseElement, string> & { syntax: SyntaxTheme };
+
+/** A theme resolved to functions that style text. */
+export type TerminalStyles = Record<ProseElement, (text: string) => string> & { syntax: SyntaxTheme };
+
+// For dark backgrounds: marked-terminal's own colours.
+const dark: TerminalTheme = {
+  firstHeading: 'bold underline magenta',
+  heading: 'bold green',
+  strong: 'bold',
+  em: 'italic',
+  del: 'dim gray strikethrough',
+  codespan: 'yellow',
+  blockquote: 'italic gray',
+  html: 'gray',
+  link: 'blue',
+  href: 'underline blue',
+  tableHead: 'bold cyan',
+  tableBorder: 'gray',
+  footnote: 'cyan',
+  caption: 'italic',
+  note: 'blue',
+  tip: 'green',
+  important: 'magenta',
+  warning: 'yellow',
+  caution: 'red',
+  cardTitle: 'bold',
+  cardMeta: 'dim',
+  cardDescription: 'italic',
+  cardTags: 'cyan',
+  cardBorder: 'gray',
+  syntax: defaultSyntaxTheme
+};
+
+// For white backgrounds, in GitHub's light colours: no bright or pale text,
+// and light line backgrounds.
+const light: TerminalTheme = {
+  firstHeading: 'bold underline #8250df',
+  heading: 'bold #116329',
+  strong: 'bold',
+  em: 'italic',
+  del: 'strikethrough #6e7781',
+  codespan: '#953800',
+  blockquote: 'italic #57606a',
+  html: '#57606a',
+  link: '#0969da',
+  href: 'underline #0969da',
+  tableHead: 'bold #0550ae',
+  tableBorder: '#8c959f',
+  footnote: '#0969da',
+  caption: 'italic #57606a',
+  note: '#0969da',
+  tip: '#1a7f37',
+  important: '#8250df',
+  warning: '#9a6700',
+  caution: '#cf222e',
+  cardTitle: 'bold',
+  cardMeta: '#57606a',
+  cardDescription: 'italic',
+  cardTags: '#0969da',
+  cardBorder: '#8c959f',
+  syntax: {
+    ...defaultSyntaxTheme,
+    'keyword': 'bold #cf222e',
+    'built_in': 'bold #0550ae',
+    'literal': 'bold #0550ae',
+    'type': '#953800',
+    'title': 'bold',
+    'title.class': 'bold underline #953800',
+    'title.class.inherited': '#953800',
+    'title.function': 'bold underline #8250df',
+    'title.function.invoke': 'italic #8250df',
+    'variable.language': 'bold #cf222e',
+    'property': '#0550ae',
+    'attr': 'italic #0550ae',
+    'attribute': 'italic #0550ae',
+    'string': '#0a3069',
+    'regexp': '#0a3069',
+    'subst': '#953800',
+    'char.escape': '#953800',
+    'number': '#0550ae',
+    'symbol': '#0550ae',
+    'operator': '#cf222e',
+    'comment': 'italic #6e7781',
+    'doctag': 'bold #6e7781',
+    'meta': '#8250df',
+    'meta.keyword': 'bold #8250df',
+    'meta.string': '#0a3069',
+    'tag': '#6e7781',
+    'name': '#116329',
+    'selector-tag': '#116329',
+    'selector-class': '#953800',
+    'selector-id': 'bold #953800',
+    'selector-attr': 'italic #0550ae',
+    'selector-pseudo': '#8250df',
+    'section': 'bold #0550ae',
+    'bullet': '#953800',
+    'link': 'underline #0a3069',
+    'code': '#953800',
+    'addition': '#116329',
+    'deletion': '#82071e',
+    'line.emphasized': 'bg:#fff8c5',
+    'line.added': 'bg:#dafbe1',
+    'line.removed': 'bg:#ffebe9',
+    'line.number': '#8c959f',
+    'line.number.emphasized': 'bold #9a6700',
+    'line.marker': '#8c959f',
+    'line.marker.emphasized': '#9a6700',
+    'marker.added': 'bold #1a7f37',
+    'marker.removed': 'bold #cf222e',
+    'block.title': 'bold',
+    'block.rule': '#8c959f'
+  }
+};
+
+// Solarized's accent colours, with Solarized Dark's line backgrounds.
+const solarized: TerminalTheme = {
+  firstHeading: 'bold underline #d33682',
+  heading: 'bold #859900',
+  strong: 'bold',
+  em: 'italic',
+  del: 'strikethrough #586e75',
+  codespan: '#b58900',
+  blockquote: 'italic #839496',
+  html: '#586e75',
+  link: '#268bd2',
+  href: 'underline #268bd2',
+  tableHead: 'bold #2aa198',
+  tableBorder: '#586e75',
+  footnote: '#2aa198',
+  caption: 'italic #839496',
+  note: '#268bd2',
+  tip: '#859900',
+  important: '#6c71c4',
+  warning: '#b58900',
+  caution: '#dc322f',
+  cardTitle: 'bold #268bd2',
+  cardMeta: '#586e75',
+  cardDescription: 'italic #839496',
+  cardTags: '#2aa198',
+  cardBorder: '#586e75',
+  syntax: {
+    ...defaultSyntaxTheme,
+    'keyword': 'bold #859900',
+    'built_in': 'bold #b58900',
+    'literal': 'bold #2aa198',
+    'type': '#b58900',
+    'title': 'bold #268bd2',
+    'title.class': 'bold underline #b58900',
+    'title.class.inherited': '#b58900',
+    'title.function': 'bold underline #268bd2',
+    'title.function.invoke': 'italic #268bd2',
+    'variable.language': 'bold #859900',
+    'property': '#268bd2',
+    'attr': 'italic #2aa198',
+    'attribute': 'italic #2aa198',
+    'string': '#2aa198',
+    'regexp': '#dc322f',
+    'subst': '#cb4b16',
+    'char.escape': '#cb4b16',
+    'number': '#d33682',
+    'symbol': '#d33682',
+    'operator': '#6c71c4',
+    'comment': 'italic #586e75',
+    'doctag': 'bold #586e75',
+    'meta': '#cb4b16',
+    'meta.keyword': 'bold #cb4b16',
+    'meta.string': '#2aa198',
+    'tag': '#268bd2',
+    'name': '#268bd2',
+    'selector-tag': '#859900',
+    'selector-class': '#b58900',
+    'selector-id': 'bold #cb4b16',
+    'selector-attr': 'italic #2aa198',
+    'selector-pseudo': '#d33682',
+    'section': 'bold #268bd2',
+    'bullet': '#cb4b16',
+    'link': 'underline #6c71c4',
+    'code': '#2aa198',
+    'addition': '#859900',
+    'deletion': '#dc322f',
+    'line.emphasized': 'bg:#073642',
+    'line.added': 'bg:#0b3b2c',
+    'line.removed': 'bg:#3d1d24',
+    'line.number': '#586e75',
+    'line.number.emphasized': 'bold #b58900',
+    'line.marker': '#586e75',
+    'line.marker.emphasized': '#b58900',
+    'marker.added': 'bold #859900',
+    'marker.removed': 'bold #dc322f',
+    'block.title': 'bold #268bd2',
+    'block.rule': '#586e75'
+  }
+};
+
+// Bright colours and nothing dim or grey, for dark backgrounds.
+const highContrast: TerminalTheme = {
+  firstHeading: 'bold underline whiteBright',
+  heading: 'bold yellowBright',
+  strong: 'bold whiteBright',
+  em: 'italic whiteBright',
+  del: 'strikethrough white',
+  codespan: 'bold cyanBright',
+  blockquote: 'italic white',
+  html: 'white',
+  link: 'cyanBright',
+  href: 'underline cyanBright',
+  tableHead: 'bold whiteBright',
+  tableBorder: 'white',
+  footnote: 'bold cyanBright',
+  caption: 'italic whiteBright',
+  note: 'blueBright',
+  tip: 'greenBright',
+  important: 'magentaBright',
+  warning: 'yellowBright',
+  caution: 'redBright',
+  cardTitle: 'bold whiteBright',
+  cardMeta: 'white',
+  cardDescription: 'italic whiteBright',
+  cardTags: 'cyanBright',
+  cardBorder: 'white',
+  syntax: {
+    ...defaultSyntaxTheme,
+    'keyword': 'bold yellowBright',
+    'built_in': 'bold cyanBright',
+    'literal': 'bold magentaBright',
+    'type': 'yellowBright',
+    'title': 'bold whiteBright',
+    'title.class': 'bold underline yellowBright',
+    'title.class.inherited': 'yellowBright',
+    'title.function': 'bold underline whiteBright',
+    'title.function.invoke': 'italic whiteBright',
+    'variable.language': 'bold yellowBright',
+    'property': 'whiteBright',
+    'attr': 'italic cyanBright',
+    'attribute': 'italic cyanBright',
+    'string': 'greenBright',
+    'regexp': 'greenBright',
+    'subst': 'whiteBright',
+    'char.escape': 'bold greenBright',
+    'number': 'magentaBright',
+    'symbol': 'magentaBright',
+    'operator': 'whiteBright',
+    'comment': 'italic white',
+    'doctag': 'bold italic white',
+    'meta': 'cyanBright',
+    'meta.keyword': 'bold cyanBright',
+    'meta.string': 'greenBright',
+    'tag': 'white',
+    'name': 'cyanBright',
+    'selector-tag': 'cyanBright',
+    'selector-class': 'yellowBright',
+    'selector-id': 'bold yellowBright',
+    'selector-attr': 'italic cyanBright',
+    'selector-pseudo': 'magentaBright',
+    'section': 'bold whiteBright',
+    'bullet': 'yellowBright',
+    'quote': 'italic',
+    'link': 'underline cyanBright',
+    'code': 'yellowBright',
+    'addition': 'greenBright',
+    'deletion': 'redBright',
+    'line.emphasized': 'bg:#444444',
+    'line.added': 'bg:#005f00',
+    'line.removed': 'bg:#5f0000',
+    'line.number': 'white',
+    'line.number.emphasized': 'bold yellowBright',
+    'line.marker': 'white',
+    'line.marker.emphasized': 'yellowBright',
+    'marker.added': 'bold greenBright',
+    'marker.removed': 'bold redBright',
+    'block.title': 'bold whiteBright',
+    'block.rule': 'white'
+  }
+};
+
+export const terminalThemes: Record<TerminalThemeName, TerminalTheme> = {
+  dark,
+  light,
+  solarized,
+  'high-contrast': highContrast
+};
+
+/**
+ * The styles `profile` asks for: its colour theme (or the one for its light
+ * or dark `theme`), with its own overrides on top.
+ */
+export function terminalStyles(profile: Pick<RenderProfile, 'theme' | 'terminal'>): TerminalStyles {
+  const name = profile.terminal?.colorTheme ?? (profile.theme === 'light' ? 'light' : 'dark');
+  const theme = terminalThemes[name] ?? dark;
+  const colors: Record<string, string | undefined> = profile.terminal?.colors ?? {};
+
+  const styles = { syntax: { ...theme.syntax, ...profile.terminal?.syntaxTheme } } as TerminalStyles;
+  for (const element of Object.keys(dark) as (ProseElement | 'syntax')[]) {
+    if (element === 'syntax') continue;
+    styles[element] = parseStyle(colors[element] ?? '') ?? parseStyle(theme[element]) ?? (text => text);
+  }
+  return styles;
+}
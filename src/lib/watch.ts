@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { parseHeadings } from './sections.js';
+
+/**
+ * File watching for `mmm --watch`.
+ *
+ * Editors rarely write a file in place: most save to a temporary file and
+ * rename it over the original, which replaces the inode an `fs.watch` on the
+ * file itself was attached to. So the watcher watches each file's parent
+ * directory and filters events by file name, which survives atomic saves and
+ * also notices a missing image once it's created.
+ */
+
+// Editors often produce several events per save (truncate, write, rename);
+// wait for them to settle before reporting one change.
+const DEBOUNCE_MS = 150;
+
+export class FileWatcher {
+  private readonly dirs = new Map<string, fs.FSWatcher>();
+  private files = new Set<string>();
+  private changed = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+
+  /** `onChange` receives the absolute paths that changed since the last call. */
+  constructor(private readonly onChange: (changed: string[]) => void) {}
+
+  /** Replace the set of watched files (absolute paths). */
+  setFiles(files: Iterable<string>): void {
+    this.files = new Set(Array.from(files, f => path.resolve(f)));
+    const wantedDirs = new Set(Array.from(this.files, f => path.dirname(f)));
+
+    for (const [dir, watcher] of this.dirs) {
+      if (!wantedDirs.has(dir)) {
+        watcher.close();
+        this.dirs.delete(dir);
+      }
+    }
+    for (const dir of wantedDirs) {
+      if (this.dirs.has(dir)) continue;
+      try {
+        const watcher = fs.watch(dir, (_event, name) => this.onEvent(dir, name));
+        // A watched directory that disappears shouldn't take the process down.
+        watcher.on('error', () => {
+          watcher.close();
+          this.dirs.delete(dir);
+        });
+        this.dirs.set(dir, watcher);
+      } catch {
+        // Directory doesn't exist (yet) — nothing to watch there.
+      }
+    }
+  }
+
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    for (const watcher of this.dirs.values()) watcher.close();
+    this.dirs.clear();
+  }
+
+  private onEvent(dir: string, name: string | Buffer | null): void {
+    // Some platforms don't report the file name; treat that as "anything in
+    // this directory may have changed".
+    const candidates = name
+      ? [path.join(dir, name.toString())]
+      : Array.from(this.files).filter(f => path.dirname(f) === dir);
+    const relevant = candidates.filter(f => this.files.has(f));
+    if (relevant.length === 0) return;
+
+    for (const f of relevant) this.changed.add(f);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const changed = Array.from(this.changed);
+      this.changed.clear();
+      this.onChange(changed);
+    }, DEBOUNCE_MS);
+  }
+}
+
+/**
+ * The heading of the section where `updated` first differs from `previous`,
+ * as plain text (inline markdown removed), or undefined when the edit is
+ * above the first heading or nothing changed. Watch mode scrolls there so
+ * the part being edited stays in view.
+ */
+export function findEditedHeading(previous: string, updated: string): string | undefined {
+  const before = previous.split('\n');
+  const after = updated.split('\n');
+  let line = 0;
+  while (line < after.length && line < before.length && before[line] === after[line]) line++;
+  if (line === before.length && line === after.length) return undefined;
+
+  const above = parseHeadings(updated).filter(h => h.line <= line);
+  return above[above.length - 1]?.text;
+}
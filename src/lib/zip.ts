@@ -0,0 +1,86 @@
+import zlib from 'zlib';
+
+/**
+ * Just enough of the zip format to change one file in an archive, such as
+ * the styles of an ODT document pandoc wrote. The other entries are copied
+ * as they are, still compressed and in their order (an ODT's uncompressed
+ * `mimetype` has to stay first). Zip64, encrypted and split archives aren't
+ * supported.
+ */
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+
+// The general purpose flag saying sizes follow the data instead of being in
+// the local header; the copies always have them in the header.
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Replace the text of the entry `name` in the zip `archive` with what `edit`
+ * makes of it. Throws when the archive has no such entry or isn't a zip.
+ */
+export function editZipEntry(archive: Buffer, name: string, edit: (text: string) => string): Buffer {
+  const end = archive.lastIndexOf(END_OF_CENTRAL_DIRECTORY);
+  if (end < 0) throw new Error('not a zip archive');
+  const count = archive.readUInt16LE(end + 10);
+
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  let found = false;
+  let at = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(at) !== CENTRAL_HEADER) throw new Error('not a zip archive');
+    const nameLength = archive.readUInt16LE(at + 28);
+    const entryName = archive.subarray(at + 46, at + 46 + nameLength);
+    const local = archive.readUInt32LE(at + 42);
+    if (archive.readUInt32LE(local) !== LOCAL_HEADER) throw new Error('not a zip archive');
+    const start = local + 30 + archive.readUInt16LE(local + 26) + archive.readUInt16LE(local + 28);
+
+    // The central header without its extra field and comment, which
+    // describes the copy once its numbers are brought up to date.
+    const central = Buffer.concat([archive.subarray(at, at + 46), entryName]);
+    central.writeUInt16LE(archive.readUInt16LE(at + 8) & ~DATA_DESCRIPTOR_FLAG, 8);
+    central.writeUInt16LE(0, 30);
+    central.writeUInt16LE(0, 32);
+    central.writeUInt32LE(offset, 42);
+
+    let data = archive.subarray(start, start + archive.readUInt32LE(at + 20));
+    if (entryName.toString('utf8') === name) {
+      const method = archive.readUInt16LE(at + 10);
+      if (method !== STORED && method !== DEFLATED) throw new Error(`${name} uses an unsupported compression method`);
+      const text = Buffer.from(edit((method === DEFLATED ? zlib.inflateRawSync(data) : data).toString('utf8')));
+      data = zlib.deflateRawSync(text);
+      central.writeUInt16LE(DEFLATED, 10);
+      central.writeUInt32LE(zlib.crc32(text), 16);
+      central.writeUInt32LE(data.length, 20);
+      central.writeUInt32LE(text.length, 24);
+      found = true;
+    }
+
+    // The local header repeats the central one's version, flags, method,
+    // time, checksum, sizes and name.
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    central.copy(header, 4, 6, 30);
+    header.writeUInt16LE(0, 28);
+    locals.push(header, entryName, data);
+    centrals.push(central);
+    offset += header.length + entryName.length + data.length;
+    at += 46 + nameLength + archive.readUInt16LE(at + 30) + archive.readUInt16LE(at + 32);
+  }
+  if (!found) throw new Error(`${name} not found in the archive`);
+
+  const directory = Buffer.concat(centrals);
+  const trailer = Buffer.alloc(22);
+  END_OF_CENTRAL_DIRECTORY.copy(trailer, 0);
+  trailer.writeUInt16LE(count, 8);
+  trailer.writeUInt16LE(count, 10);
+  trailer.writeUInt32LE(directory.length, 12);
+  trailer.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, trailer]);
+}
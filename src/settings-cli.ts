@@ -127,6 +127,7 @@ class SettingsManager {
         if (profile.terminal.transparency?.enabled) {
           console.log(`  Transparency threshold: ${profile.terminal.transparency.threshold}`);
         }
+        console.log(`  Color theme: ${profile.terminal.colorTheme || `${profile.theme} (from theme)`}`);
       }
       
       // Tables
@@ -134,6 +135,7 @@ class SettingsManager {
         console.log(chalk.cyan('\nTables:'));
         console.log(`  Word wrap: ${profile.tables.wordWrap ? 'Enabled' : 'Disabled'}`);
         console.log(`  Width: ${((profile.tables.widthPercent || 0.95) * 100).toFixed(0)}%`);
+        console.log(`  Layout: ${profile.tables.layout || 'auto'}`);
       }
       
       // PDF-specific
@@ -169,10 +171,12 @@ class SettingsManager {
     console.log(`3. Transparency threshold: ${profile.terminal?.transparency?.threshold || 0.95}`);
     console.log(`4. Table word wrap: ${profile.tables?.wordWrap ? 'Enabled' : 'Disabled'}`);
     console.log(`5. Table width: ${((profile.tables?.widthPercent || 0.95) * 100).toFixed(0)}%`);
-    console.log(`6. Math render mode: ${profile.renderMode || 'auto'}`);
-    console.log('7. Back to main menu\n');
+    console.log(`6. Render mode (math, mermaid): ${profile.renderMode || 'auto'}`);
+    console.log(`7. Table layout: ${profile.tables?.layout || 'auto'}`);
+    console.log(`8. Color theme: ${profile.terminal?.colorTheme || `${profile.theme} (from theme)`}`);
+    console.log('9. Back to main menu\n');
 
-    const choice = await rl.question('Select setting to edit (1-7): ');
+    const choice = await rl.question('Select setting to edit (1-9): ');
 
     switch (choice) {
       case '1':
@@ -250,6 +254,43 @@ class SettingsManager {
         break;
 
       case '7':
+        console.log('\nTable layout:');
+        console.log('  1. auto    — a grid, or a card per row when the columns don\'t fit');
+        console.log('  2. grid    — always rows and columns');
+        console.log('  3. records — always a card of "header: value" lines per row');
+        const layoutChoice = await rl.question('Select (1-3): ');
+        const layouts = ['auto', 'grid', 'records'] as const;
+        const layoutIdx = parseInt(layoutChoice) - 1;
+        if (layoutIdx >= 0 && layoutIdx < layouts.length) {
+          if (!profile.tables) profile.tables = {} as any;
+          profile.tables!.layout = layouts[layoutIdx];
+          await this.saveConfig();
+          console.log(chalk.green('✅ Setting saved!'));
+        } else {
+          console.log(chalk.red('Invalid selection.'));
+        }
+        break;
+
+      case '8':
+        console.log('\nColor theme for prose, tables and code:');
+        console.log('  1. dark');
+        console.log('  2. light');
+        console.log('  3. solarized');
+        console.log('  4. high-contrast');
+        const colorChoice = await rl.question('Select (1-4): ');
+        const colorThemes = ['dark', 'light', 'solarized', 'high-contrast'] as const;
+        const colorIdx = parseInt(colorChoice) - 1;
+        if (colorIdx >= 0 && colorIdx < colorThemes.length) {
+          if (!profile.terminal) profile.terminal = {} as any;
+          profile.terminal!.colorTheme = colorThemes[colorIdx];
+          await this.saveConfig();
+          console.log(chalk.green('✅ Setting saved!'));
+        } else {
+          console.log(chalk.red('Invalid selection.'));
+        }
+        break;
+
+      case '9':
         await this.showMainMenu();
         return;
     }
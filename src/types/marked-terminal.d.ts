@@ -20,7 +20,8 @@ declare module 'marked-terminal' {
     codespan?: (code: string) => string;
     br?: () => string;
     del?: (text: string) => string;
-    link?: (href: string, title: string, text: string) => string;
+    link?: (text: string) => string;
+    href?: (href: string) => string;
     image?: (href: string, title: string, text: string) => string;
     text?: (text: string) => string;
     width?: number;
@@ -0,0 +1,107 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { type AddressInfo } from 'node:net';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+// Remote images against a local server, with the config and cache in a
+// temp directory so nothing touches the user's own.
+const home = await fs.mkdtemp(path.join(os.tmpdir(), 'mmm-remote-'));
+process.env.XDG_CONFIG_HOME = path.join(home, 'config');
+process.env.XDG_CACHE_HOME = path.join(home, 'cache');
+await fs.mkdir(path.join(home, 'config', 'mmm'), { recursive: true });
+await fs.writeFile(
+  path.join(home, 'config', 'mmm', 'config.json'),
+  JSON.stringify({ remoteImages: { maxSizeMB: 0.001, timeoutMs: 200, maxAgeHours: 1 } })
+);
+
+const { fetchRemoteImage } = await import('../src/lib/remote.js');
+
+const PNG = Buffer.from('89504e470d0a1a0a', 'hex');
+const requests = new Map<string, number>();
+let failing = false;
+
+const server = http.createServer((req, res) => {
+  const url = req.url ?? '';
+  requests.set(url, (requests.get(url) ?? 0) + 1);
+  if (failing) {
+    res.writeHead(500).end();
+  } else if (url.startsWith('/image')) {
+    res.writeHead(200, { 'Content-Type': 'image/png' }).end(PNG);
+  } else if (url === '/page') {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>');
+  } else if (url === '/large') {
+    // Chunked, with no length header: the limit has to catch it while reading.
+    res.writeHead(200, { 'Content-Type': 'image/png' });
+    res.write(Buffer.alloc(4096));
+    res.end(Buffer.alloc(4096));
+  } else if (url === '/slow') {
+    setTimeout(() => res.writeHead(200, { 'Content-Type': 'image/png' }).end(PNG), 1000);
+  } else {
+    res.writeHead(404).end();
+  }
+});
+
+let base = '';
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+test('downloads an image and serves it from the cache after that', async () => {
+  const file = await fetchRemoteImage(`${base}/image/cached`);
+  assert.equal(path.extname(file), '.png');
+  assert.deepEqual(await fs.readFile(file), PNG);
+
+  assert.equal(await fetchRemoteImage(`${base}/image/cached`), file);
+  assert.equal(requests.get('/image/cached'), 1);
+});
+
+test('fetches a copy older than the max age again', async () => {
+  const file = await fetchRemoteImage(`${base}/image/old`);
+  const written = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  await fs.utimes(file, written, written);
+
+  assert.equal(await fetchRemoteImage(`${base}/image/old`), file);
+  assert.equal(requests.get('/image/old'), 2);
+  assert.ok((await fs.stat(file)).mtimeMs > written.getTime());
+});
+
+test('keeps using an old copy when fetching it again fails', async () => {
+  const file = await fetchRemoteImage(`${base}/image/stale`);
+  const written = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  await fs.utimes(file, written, written);
+
+  failing = true;
+  try {
+    assert.equal(await fetchRemoteImage(`${base}/image/stale`), file);
+  } finally {
+    failing = false;
+  }
+  assert.equal(requests.get('/image/stale'), 2);
+});
+
+test('rejects what is not an image', async () => {
+  await assert.rejects(fetchRemoteImage(`${base}/page`), /not an image \(text\/html\)/);
+});
+
+test('rejects a server error', async () => {
+  await assert.rejects(fetchRemoteImage(`${base}/missing`), /HTTP 404/);
+});
+
+test('rejects an image over the size limit', async () => {
+  await assert.rejects(fetchRemoteImage(`${base}/large`), /larger than/);
+});
+
+test('gives up on a slow server', async () => {
+  await assert.rejects(fetchRemoteImage(`${base}/slow`), /timed out after 0.2s/);
+});